@@ -2,10 +2,22 @@ export const PROVIDER_ID = "gitlab"
 export const DEFAULT_MODEL_ID = "duo-chat-sonnet-4-5"
 export const DEFAULT_INSTANCE_URL = "https://gitlab.com"
 export const CACHE_TTL_MS = 24 * 60 * 60 * 1000
-export const WORKFLOW_DEFINITION = "chat"
+export const DEFAULT_WORKFLOW_DEFINITION = "chat"
 export const WORKFLOW_CLIENT_VERSION = "1.0"
 export const WORKFLOW_ENVIRONMENT = "ide"
 export const WORKFLOW_CONNECT_TIMEOUT_MS = 15_000
 export const WORKFLOW_HEARTBEAT_INTERVAL_MS = 60_000
 export const WORKFLOW_KEEPALIVE_INTERVAL_MS = 45_000
 export const WORKFLOW_TOKEN_EXPIRY_BUFFER_MS = 30_000
+export const WORKFLOW_RECONNECT_MAX_ATTEMPTS = 5
+export const WORKFLOW_RECONNECT_BASE_DELAY_MS = 500
+export const WORKFLOW_RECONNECT_MAX_DELAY_MS = 10_000
+export const WORKFLOW_ACTION_TIMEOUT_MS = 10 * 60 * 1000
+export const GITLAB_REQUEST_TIMEOUT_MS = 30_000
+export const GITLAB_REQUEST_MAX_ATTEMPTS = 3
+export const GITLAB_RETRY_BASE_DELAY_MS = 500
+export const GITLAB_RETRY_MAX_DELAY_MS = 8_000
+export const GITLAB_MAX_RETRY_AFTER_MS = 60_000
+export const APPROVAL_TOOL_NAME = "duo_tool_approval"
+export const LIST_DIR_TOOL_NAME = "list_dir"
+export const REFRESH_MODELS_TOOL_NAME = "gitlab_refresh_models"
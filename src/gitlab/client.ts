@@ -1,45 +1,248 @@
+import {
+  GITLAB_MAX_RETRY_AFTER_MS,
+  GITLAB_REQUEST_MAX_ATTEMPTS,
+  GITLAB_REQUEST_TIMEOUT_MS,
+  GITLAB_RETRY_BASE_DELAY_MS,
+  GITLAB_RETRY_MAX_DELAY_MS,
+} from "../constants"
+import { type BackoffPolicy, backoffDelay, sleep } from "../utils/backoff"
+import { instanceEndpoint } from "../utils/url"
+import { connectionOptions, type Transport } from "./transport"
+
 export type GitLabClientOptions = {
   instanceUrl: string
   token: string
+  /** Proxy and TLS settings; unset connects directly with the default trust store. */
+  transport?: Transport
+  /** Project path or numeric ID to work on; unset detects it from the git remotes. */
+  project?: string
 }
 
-class GitLabApiError extends Error {
+/** A failed GitLab request. `status` is 0 when no HTTP response was received. */
+export class GitLabApiError extends Error {
   constructor(
     public readonly status: number,
     message: string,
   ) {
     super(message)
-    this.name = "GitLabApiError"
+    this.name = new.target.name
+  }
+}
+
+/** 401 or 403: the token is invalid, expired or lacks a scope or permission. */
+export class GitLabAuthError extends GitLabApiError {}
+
+export class GitLabNotFoundError extends GitLabApiError {}
+
+/** 429 that could not be waited out; `retryAfterMs` is GitLab's hint, if any. */
+export class GitLabRateLimitError extends GitLabApiError {
+  constructor(
+    message: string,
+    public readonly retryAfterMs: number | undefined,
+  ) {
+    super(429, message)
   }
 }
 
-async function request(options: GitLabClientOptions, path: string, init: RequestInit): Promise<Response> {
-  const url = `${options.instanceUrl}/api/v4/${path}`
+/** 5xx after the retries for idempotent requests ran out. */
+export class GitLabServerError extends GitLabApiError {}
+
+/** No response: DNS, connection or TLS failure, or the request timed out. */
+export class GitLabNetworkError extends GitLabApiError {
+  constructor(
+    message: string,
+    public readonly timedOut: boolean,
+  ) {
+    super(0, message)
+  }
+}
+
+const RETRY_POLICY: BackoffPolicy = {
+  maxAttempts: GITLAB_REQUEST_MAX_ATTEMPTS,
+  baseDelayMs: GITLAB_RETRY_BASE_DELAY_MS,
+  maxDelayMs: GITLAB_RETRY_MAX_DELAY_MS,
+}
+
+/** Transient statuses; 429 is retried for every method since the request was not processed. */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504])
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"])
+
+async function request(
+  options: GitLabClientOptions,
+  path: string,
+  init: RequestInit,
+  retry: { idempotent?: boolean } = {},
+): Promise<Response> {
+  const url = instanceEndpoint(options.instanceUrl, `api/v4/${path}`).toString()
+  return send(options, url, `${init.method ?? "GET"} ${path}`, init, retry.idempotent)
+}
+
+/**
+ * Authenticated fetch with a timeout per attempt. Idempotent requests are
+ * retried on network errors and transient statuses, waiting as long as
+ * `Retry-After` / `RateLimit-Reset` ask (up to a limit) or else backing off.
+ * The last response is returned as-is; callers decide what is an error.
+ */
+async function send(
+  options: GitLabClientOptions,
+  url: string,
+  label: string,
+  init: RequestInit,
+  idempotent = IDEMPOTENT_METHODS.has((init.method ?? "GET").toUpperCase()),
+): Promise<Response> {
   const headers = new Headers(init.headers)
   headers.set("authorization", `Bearer ${options.token}`)
-  const response = await fetch(url, {
-    ...init,
-    headers,
+  const connection = connectionOptions(options.transport, url)
+
+  for (let attempt = 1; ; attempt++) {
+    const last = attempt >= RETRY_POLICY.maxAttempts
+
+    let response: Response
+    try {
+      response = await fetch(url, {
+        ...init,
+        ...connection,
+        headers,
+        signal: AbortSignal.timeout(GITLAB_REQUEST_TIMEOUT_MS),
+      })
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === "TimeoutError"
+      if (!idempotent || last) {
+        const reason = timedOut
+          ? `timed out after ${GITLAB_REQUEST_TIMEOUT_MS / 1000}s`
+          : `failed: ${error instanceof Error ? error.message : String(error)}`
+        throw new GitLabNetworkError(`${label} ${reason}`, timedOut)
+      }
+      await sleep(backoffDelay(attempt, RETRY_POLICY))
+      continue
+    }
+
+    const retryable = response.status === 429 || (idempotent && RETRYABLE_STATUSES.has(response.status))
+    if (!retryable || last) return response
+
+    const delay = retryAfter(response) ?? backoffDelay(attempt, RETRY_POLICY)
+    if (delay > GITLAB_MAX_RETRY_AFTER_MS) return response
+    await response.body?.cancel().catch(() => {})
+    await sleep(delay)
+  }
+}
+
+/** Milliseconds GitLab asks to wait, from `Retry-After` or an exhausted `RateLimit-*` window. */
+function retryAfter(response: Response): number | undefined {
+  const header = response.headers.get("retry-after")
+  if (header) {
+    const seconds = Number(header)
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(header) - Date.now()
+    if (!Number.isNaN(ms)) return Math.max(0, ms)
+  }
+
+  const remaining = response.headers.get("ratelimit-remaining")
+  const reset = Number(response.headers.get("ratelimit-reset"))
+  if (remaining === "0" && reset > 0) return Math.max(0, reset * 1000 - Date.now())
+
+  return undefined
+}
+
+async function responseError(label: string, response: Response): Promise<GitLabApiError> {
+  const text = await response.text().catch(() => "")
+  const message = `${label} failed (${response.status}): ${text}`
+  const status = response.status
+  if (status === 401 || status === 403) return new GitLabAuthError(status, message)
+  if (status === 404) return new GitLabNotFoundError(status, message)
+  if (status === 429) return new GitLabRateLimitError(message, retryAfter(response))
+  if (status >= 500) return new GitLabServerError(status, message)
+  return new GitLabApiError(status, message)
+}
+
+export type RawResponse = {
+  status: number
+  headers: Record<string, string>
+  body: string
+}
+
+/**
+ * Forwarded to callers of `requestRaw`; the rest (cookies, rate-limit
+ * internals, ...) is dropped.
+ */
+const FORWARDED_HEADERS = [
+  "content-type",
+  "link",
+  "x-next-page",
+  "x-page",
+  "x-per-page",
+  "x-prev-page",
+  "x-total",
+  "x-total-pages",
+]
+
+/**
+ * Perform an API request and return the response as-is, without throwing on
+ * error statuses. `path` is relative to `/api/v4/`.
+ */
+export async function requestRaw(
+  options: GitLabClientOptions,
+  method: string,
+  path: string,
+  body?: string,
+): Promise<RawResponse> {
+  const response = await request(options, path.replace(/^\/+/, "").replace(/^api\/v4\//, ""), {
+    method,
+    ...(body ? { headers: { "content-type": "application/json" }, body } : {}),
   })
 
-  return response
+  const headers: Record<string, string> = {}
+  for (const name of FORWARDED_HEADERS) {
+    const value = response.headers.get(name)
+    if (value !== null) headers[name] = value
+  }
+
+  return { status: response.status, headers, body: await response.text() }
 }
 
 export async function get<T>(options: GitLabClientOptions, path: string): Promise<T> {
   const response = await request(options, path, { method: "GET" })
 
-  if (!response.ok) {
-    const text = await response.text().catch(() => "")
-    throw new GitLabApiError(response.status, `GET ${path} failed (${response.status}): ${text}`)
-  }
+  if (!response.ok) throw await responseError(`GET ${path}`, response)
 
   return response.json() as Promise<T>
 }
 
+/** For plain-text endpoints such as job traces. */
+export async function getText(options: GitLabClientOptions, path: string): Promise<string> {
+  const response = await request(options, path, { method: "GET" })
+
+  if (!response.ok) throw await responseError(`GET ${path}`, response)
+
+  return response.text()
+}
+
+/** A page of a paginated list endpoint; `nextPage` is unset on the last page. */
+export type Page<T> = {
+  items: T[]
+  nextPage?: number
+  total?: number
+}
+
+export async function getPage<T>(options: GitLabClientOptions, path: string): Promise<Page<T>> {
+  const response = await request(options, path, { method: "GET" })
+
+  if (!response.ok) throw await responseError(`GET ${path}`, response)
+
+  const nextPage = Number(response.headers.get("x-next-page"))
+  const total = Number(response.headers.get("x-total"))
+  return {
+    items: (await response.json()) as T[],
+    ...(nextPage > 0 ? { nextPage } : {}),
+    ...(total > 0 ? { total } : {}),
+  }
+}
+
+/** Not retried unless `idempotent` (e.g. endpoints that only mint tokens). */
 export async function post<T>(
   options: GitLabClientOptions,
   path: string,
   body: Record<string, unknown>,
+  retry: { idempotent?: boolean } = {},
 ): Promise<T> {
   const response = await request(options, path, {
     method: "POST",
@@ -47,31 +250,23 @@ export async function post<T>(
       "content-type": "application/json",
     },
     body: JSON.stringify(body),
-  })
+  }, retry)
 
-  if (!response.ok) {
-    const text = await response.text().catch(() => "")
-    throw new GitLabApiError(response.status, `POST ${path} failed (${response.status}): ${text}`)
-  }
+  if (!response.ok) throw await responseError(`POST ${path}`, response)
 
   return response.json() as Promise<T>
 }
 
 export async function graphql<T>(options: GitLabClientOptions, query: string, variables: Record<string, unknown>): Promise<T> {
-  const url = `${options.instanceUrl}/api/graphql`
-  const response = await fetch(url, {
+  // Only queries go through here, so retrying is safe.
+  const url = instanceEndpoint(options.instanceUrl, "api/graphql").toString()
+  const response = await send(options, url, "GraphQL request", {
     method: "POST",
-    headers: {
-      "content-type": "application/json",
-      authorization: `Bearer ${options.token}`,
-    },
+    headers: { "content-type": "application/json" },
     body: JSON.stringify({ query, variables }),
-  })
+  }, true)
 
-  if (!response.ok) {
-    const text = await response.text().catch(() => "")
-    throw new GitLabApiError(response.status, `GraphQL request failed (${response.status}): ${text}`)
-  }
+  if (!response.ok) throw await responseError("GraphQL request", response)
 
   const result = (await response.json()) as { data?: T; errors?: Array<{ message: string }> }
 
@@ -0,0 +1,44 @@
+import { type GitLabClientOptions, type Page, get, getPage } from "./client"
+import { projectApiPath } from "./project"
+
+type User = { username: string; name?: string }
+
+export type Issue = {
+  iid: number
+  title: string
+  state: string
+  description: string | null
+  web_url: string
+  author?: User
+  assignees?: User[]
+  labels?: string[]
+  milestone?: { title: string } | null
+  created_at: string
+  updated_at: string
+  due_date?: string | null
+}
+
+type IssueSearch = {
+  search?: string
+  state?: "opened" | "closed" | "all"
+  labels?: string[]
+  page?: number
+  perPage?: number
+}
+
+export async function getIssue(client: GitLabClientOptions, project: string, iid: number): Promise<Issue> {
+  return get<Issue>(client, `${projectApiPath(project)}/issues/${iid}`)
+}
+
+export async function searchIssues(client: GitLabClientOptions, project: string, query: IssueSearch): Promise<Page<Issue>> {
+  const params = new URLSearchParams({
+    state: query.state ?? "opened",
+    order_by: "updated_at",
+    page: String(query.page ?? 1),
+    per_page: String(query.perPage ?? 20),
+  })
+  if (query.search) params.set("search", query.search)
+  if (query.labels?.length) params.set("labels", query.labels.join(","))
+
+  return getPage<Issue>(client, `${projectApiPath(project)}/issues?${params}`)
+}
@@ -0,0 +1,95 @@
+import { type GitLabClientOptions, type Page, get, getPage } from "./client"
+import { projectApiPath } from "./project"
+
+type User = { username: string; name?: string }
+
+export type MergeRequest = {
+  iid: number
+  title: string
+  state: string
+  description: string | null
+  web_url: string
+  source_branch: string
+  target_branch: string
+  draft?: boolean
+  author?: User
+  assignees?: User[]
+  reviewers?: User[]
+  labels?: string[]
+  detailed_merge_status?: string
+  head_pipeline?: { id: number; status: string; web_url?: string } | null
+  created_at: string
+  updated_at: string
+}
+
+export type MergeRequestDiff = {
+  old_path: string
+  new_path: string
+  diff: string
+  new_file: boolean
+  renamed_file: boolean
+  deleted_file: boolean
+}
+
+type Note = {
+  id: number
+  body: string
+  author?: User
+  system: boolean
+  resolvable?: boolean
+  resolved?: boolean
+  created_at: string
+  position?: { new_path?: string; old_path?: string; new_line?: number | null; old_line?: number | null } | null
+}
+
+export type Discussion = {
+  id: string
+  notes: Note[]
+}
+
+type PageQuery = { page?: number; perPage?: number }
+
+export async function getMergeRequest(client: GitLabClientOptions, project: string, iid: number): Promise<MergeRequest> {
+  return get<MergeRequest>(client, `${mergeRequestsPath(project)}/${iid}`)
+}
+
+/** The open merge request whose source branch is `branch`, if any. */
+export async function findOpenMergeRequest(
+  client: GitLabClientOptions,
+  project: string,
+  branch: string,
+): Promise<MergeRequest | undefined> {
+  const params = new URLSearchParams({ source_branch: branch, state: "opened", order_by: "updated_at", per_page: "1" })
+  const page = await getPage<MergeRequest>(client, `${mergeRequestsPath(project)}?${params}`)
+  return page.items[0]
+}
+
+export async function getMergeRequestDiffs(
+  client: GitLabClientOptions,
+  project: string,
+  iid: number,
+  query: PageQuery = {},
+): Promise<Page<MergeRequestDiff>> {
+  return getPage<MergeRequestDiff>(client, `${mergeRequestsPath(project)}/${iid}/diffs?${pageParams(query)}`)
+}
+
+export async function getMergeRequestDiscussions(
+  client: GitLabClientOptions,
+  project: string,
+  iid: number,
+  query: PageQuery = {},
+): Promise<Page<Discussion>> {
+  return getPage<Discussion>(client, `${mergeRequestsPath(project)}/${iid}/discussions?${pageParams(query)}`)
+}
+
+export function isUnresolved(discussion: Discussion): boolean {
+  return discussion.notes.some((note) => note.resolvable && !note.resolved)
+}
+
+function mergeRequestsPath(project: string): string {
+  return `${projectApiPath(project)}/merge_requests`
+}
+
+function pageParams(query: PageQuery): URLSearchParams {
+  return new URLSearchParams({ page: String(query.page ?? 1), per_page: String(query.perPage ?? 20) })
+}
@@ -4,8 +4,8 @@ import os from "node:os"
 import path from "node:path"
 import { z } from "zod"
 import { CACHE_TTL_MS, DEFAULT_MODEL_ID } from "../constants"
-import { type GitLabClientOptions, graphql } from "./client"
-import { detectProjectPath, fetchProjectDetails, resolveRootNamespaceId } from "./project"
+import { GitLabAuthError, type GitLabClientOptions, graphql } from "./client"
+import { fetchProjectDetails, resolveProject, resolveRootNamespaceId } from "./project"
 
 export type AvailableModel = {
   id: string
@@ -20,9 +20,10 @@ type GraphQLData = {
   } | null
 }
 
-const CachePayloadSchema = z.object({
+const ModelCacheSchema = z.object({
   cachedAt: z.string(),
   instanceUrl: z.string(),
+  rootNamespaceId: z.string(),
   models: z
     .array(
       z.object({
@@ -33,7 +34,23 @@ const CachePayloadSchema = z.object({
     .min(1),
 })
 
-type CachePayload = z.infer<typeof CachePayloadSchema>
+type ModelCache = z.infer<typeof ModelCacheSchema>
+
+/** Root namespace of each project seen with one token, so a cache hit needs no API call. */
+const NamespaceCacheSchema = z.object({
+  projects: z.record(z.object({ rootNamespaceId: z.string(), cachedAt: z.string() })),
+})
+
+type NamespaceCache = z.infer<typeof NamespaceCacheSchema>
+
+type LoadOptions = {
+  /** How long cached models count as fresh; defaults to `CACHE_TTL_MS`. */
+  ttlMs?: number
+  /** Skip the fresh cache and fetch from GitLab. */
+  refresh?: boolean
+}
+
+const FALLBACK_MODEL: AvailableModel = { id: DEFAULT_MODEL_ID, name: DEFAULT_MODEL_ID }
 
 const QUERY = `query lsp_aiChatAvailableModels($rootNamespaceId: GroupID!) {
   aiChatAvailableModels(rootNamespaceId: $rootNamespaceId) {
@@ -49,27 +66,56 @@ const QUERY = `query lsp_aiChatAvailableModels($rootNamespaceId: GroupID!) {
  *   2. Live GraphQL fetch (then cache result)
  *   3. Stale cache
  *   4. Hardcoded fallback
+ *
+ * Caches are keyed by instance, root namespace and a fingerprint of the
+ * token, so worktrees of one project share them while another token or a
+ * project moved to another group does not see them.
  */
-export async function loadAvailableModels(instanceUrl: string, token: string, cwd: string): Promise<AvailableModel[]> {
-  const cachePath = getCachePath(instanceUrl, cwd)
+export async function loadAvailableModels(
+  client: GitLabClientOptions,
+  cwd: string,
+  options: LoadOptions = {},
+): Promise<AvailableModel[]> {
+  const { instanceUrl, token } = client
+  const project = token ? await resolveProject(cwd, client) : undefined
+  if (!project) return [FALLBACK_MODEL]
+
+  const ttlMs = options.ttlMs ?? CACHE_TTL_MS
+  const fingerprint = tokenFingerprint(token)
+  const namespacesPath = getNamespaceCachePath(instanceUrl, fingerprint)
+  const namespaces = await readCache(namespacesPath, NamespaceCacheSchema) ?? { projects: {} }
+  const known = namespaces.projects[project]
 
   // 1. try fresh cache
-  const cached = await readCache(cachePath)
-  if (cached && !isStale(cached)) {
+  const cached = known
+    ? await readCache(getModelCachePath(instanceUrl, known.rootNamespaceId, fingerprint), ModelCacheSchema)
+    : null
+  if (!options.refresh && known && cached && !isStale(known.cachedAt, ttlMs) && !isStale(cached.cachedAt, ttlMs)) {
     return cached.models
   }
 
   // 2. try live fetch -- failure is non-fatal, we fall through to stale cache / hardcoded default
-  if (token) {
-    try {
-      const models = await fetchModelsFromApi({ instanceUrl, token }, cwd)
-      if (models.length > 0) {
-        await writeCache(cachePath, { cachedAt: new Date().toISOString(), instanceUrl, models })
-        return models
-      }
-    } catch {
-      // API unavailable or unauthorized -- fall through to stale cache / hardcoded fallback
+  try {
+    const details = await fetchProjectDetails(client, project)
+    const rootNamespaceId = await resolveRootNamespaceId(client, details.namespaceId)
+    const cachedAt = new Date().toISOString()
+    namespaces.projects[project] = { rootNamespaceId, cachedAt }
+    await writeCache(namespacesPath, namespaces)
+
+    const models = await fetchModelsFromApi(client, rootNamespaceId)
+    if (models.length > 0) {
+      const cachePath = getModelCachePath(instanceUrl, rootNamespaceId, fingerprint)
+      await writeCache(cachePath, { cachedAt, instanceUrl, rootNamespaceId, models })
+      return models
+    }
+  } catch (error) {
+    // The token no longer works: drop what was cached for it, it may list models it lost access to
+    if (error instanceof GitLabAuthError) {
+      await removeCache(namespacesPath)
+      if (known) await removeCache(getModelCachePath(instanceUrl, known.rootNamespaceId, fingerprint))
+      return [FALLBACK_MODEL]
     }
+    // API unavailable -- fall through to stale cache / hardcoded fallback
   }
 
   // 3. try stale cache
@@ -78,16 +124,23 @@ export async function loadAvailableModels(instanceUrl: string, token: string, cw
   }
 
   // 4. hardcoded fallback
-  return [{ id: DEFAULT_MODEL_ID, name: DEFAULT_MODEL_ID }]
+  return [FALLBACK_MODEL]
 }
 
-async function fetchModelsFromApi(client: GitLabClientOptions, cwd: string): Promise<AvailableModel[]> {
-  const projectPath = await detectProjectPath(cwd, client.instanceUrl)
-  if (!projectPath) return []
-
-  const project = await fetchProjectDetails(client, projectPath)
-  const rootNamespaceId = await resolveRootNamespaceId(client, project.namespaceId)
+/**
+ * Model cache TTL: the `modelCacheTtlMs` provider option, else the
+ * `GITLAB_DUO_MODEL_CACHE_TTL_MS` env var, else `CACHE_TTL_MS`. 0 always
+ * refetches (the cache is then only used when GitLab is unreachable).
+ */
+export function parseModelCacheTtl(options: Record<string, unknown>): number {
+  const env = process.env.GITLAB_DUO_MODEL_CACHE_TTL_MS?.trim()
+  for (const value of [options.modelCacheTtlMs, env ? Number(env) : undefined]) {
+    if (typeof value === "number" && Number.isFinite(value) && value >= 0) return value
+  }
+  return CACHE_TTL_MS
+}
 
+async function fetchModelsFromApi(client: GitLabClientOptions, rootNamespaceId: string): Promise<AvailableModel[]> {
   const data = await graphql<GraphQLData>(client, QUERY, { rootNamespaceId })
   const available = data.aiChatAvailableModels
   if (!available) return []
@@ -110,24 +163,36 @@ async function fetchModelsFromApi(client: GitLabClientOptions, cwd: string): Pro
 
 // -- cache --
 
-function getCachePath(instanceUrl: string, cwd: string): string {
-  const key = `${instanceUrl}::${cwd}`
+/** Identifies the token in cache keys without writing it to disk. */
+function tokenFingerprint(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex").slice(0, 16)
+}
+
+function getModelCachePath(instanceUrl: string, rootNamespaceId: string, fingerprint: string): string {
+  return getCachePath("models", `${instanceUrl}::${rootNamespaceId}::${fingerprint}`)
+}
+
+function getNamespaceCachePath(instanceUrl: string, fingerprint: string): string {
+  return getCachePath("namespaces", `${instanceUrl}::${fingerprint}`)
+}
+
+function getCachePath(kind: string, key: string): string {
   const hash = crypto.createHash("sha256").update(key).digest("hex").slice(0, 12)
   const dir = process.env.XDG_CACHE_HOME?.trim()
     ? path.join(process.env.XDG_CACHE_HOME, "opencode")
     : path.join(os.homedir(), ".cache", "opencode")
-  return path.join(dir, `gitlab-duo-models-${hash}.json`)
+  return path.join(dir, `gitlab-duo-${kind}-${hash}.json`)
 }
 
-function isStale(payload: CachePayload): boolean {
-  const age = Date.now() - Date.parse(payload.cachedAt)
-  return age > CACHE_TTL_MS
+function isStale(cachedAt: string, ttlMs: number): boolean {
+  const age = Date.now() - Date.parse(cachedAt)
+  return Number.isNaN(age) || age >= ttlMs
 }
 
-async function readCache(cachePath: string): Promise<CachePayload | null> {
+async function readCache<T>(cachePath: string, schema: z.ZodType<T>): Promise<T | null> {
   try {
     const raw = await fs.readFile(cachePath, "utf8")
-    const parsed = CachePayloadSchema.parse(JSON.parse(raw))
+    const parsed = schema.parse(JSON.parse(raw))
     return parsed
   } catch {
     // Cache missing, corrupt, or schema mismatch -- treat as cache miss
@@ -135,7 +200,7 @@ async function readCache(cachePath: string): Promise<CachePayload | null> {
   }
 }
 
-async function writeCache(cachePath: string, payload: CachePayload): Promise<void> {
+async function writeCache(cachePath: string, payload: ModelCache | NamespaceCache): Promise<void> {
   try {
     await fs.mkdir(path.dirname(cachePath), { recursive: true })
     await fs.writeFile(cachePath, JSON.stringify(payload, null, 2), "utf8")
@@ -143,3 +208,7 @@ async function writeCache(cachePath: string, payload: CachePayload): Promise<voi
     // Cache write failure is non-fatal -- the plugin still works without caching
   }
 }
+
+async function removeCache(cachePath: string): Promise<void> {
+  await fs.rm(cachePath, { force: true }).catch(() => {})
+}
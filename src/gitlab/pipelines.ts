@@ -0,0 +1,50 @@
+import { type GitLabClientOptions, get, getPage, getText } from "./client"
+import { projectApiPath } from "./project"
+
+type Pipeline = {
+  id: number
+  iid?: number
+  status: string
+  ref: string
+  sha: string
+  web_url: string
+  created_at: string
+  updated_at: string
+}
+
+type Job = {
+  id: number
+  name: string
+  stage: string
+  status: string
+  failure_reason?: string
+  allow_failure: boolean
+  web_url: string
+  duration?: number | null
+}
+
+/** Most recent pipeline for `ref`, if any. */
+export async function getLatestPipeline(
+  client: GitLabClientOptions,
+  project: string,
+  ref: string,
+): Promise<Pipeline | undefined> {
+  const params = new URLSearchParams({ ref, order_by: "id", sort: "desc", per_page: "1" })
+  const page = await getPage<Pipeline>(client, `${projectApiPath(project)}/pipelines?${params}`)
+  return page.items[0]
+}
+
+export async function getPipeline(client: GitLabClientOptions, project: string, pipelineId: number): Promise<Pipeline> {
+  return get<Pipeline>(client, `${projectApiPath(project)}/pipelines/${pipelineId}`)
+}
+
+/** Failed jobs of a pipeline (the latest attempt of each; retried jobs are excluded by the API). */
+export async function listFailedJobs(client: GitLabClientOptions, project: string, pipelineId: number): Promise<Job[]> {
+  const params = new URLSearchParams({ "scope[]": "failed", per_page: "100" })
+  const page = await getPage<Job>(client, `${projectApiPath(project)}/pipelines/${pipelineId}/jobs?${params}`)
+  return page.items
+}
+
+export async function getJobTrace(client: GitLabClientOptions, project: string, jobId: number): Promise<string> {
+  return getText(client, `${projectApiPath(project)}/jobs/${jobId}/trace`)
+}
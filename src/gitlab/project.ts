@@ -1,11 +1,13 @@
 import { execFile } from "node:child_process"
 import { promisify } from "node:util"
-import { type GitLabClientOptions, get } from "./client"
+import { GitLabAuthError, type GitLabClientOptions, GitLabNotFoundError, get } from "./client"
 
 const execFileAsync = promisify(execFile)
 
 type ProjectDetails = {
   projectId: string
+  /** Full path, e.g. `group/project`; also resolves a project given by ID. */
+  projectPath: string
   namespaceId: string
 }
 
@@ -15,30 +17,69 @@ type NamespaceResponse = {
 }
 
 /**
- * Detect GitLab project path from the git remote of the nearest repo/worktree.
+ * The project to work on: the client's explicit `project` (path or numeric
+ * ID), else the one detected from the git remotes of `cwd`.
+ */
+export async function resolveProject(
+  cwd: string,
+  client: Pick<GitLabClientOptions, "instanceUrl" | "project">,
+): Promise<string | undefined> {
+  return client.project ?? detectProjectPath(cwd, client.instanceUrl)
+}
+
+/**
+ * Detect GitLab project path from the git remotes of the nearest repo/worktree.
+ * Only remotes on the instance count. In a fork, `upstream` (the parent,
+ * where issues, merge requests and Duo settings live) wins over `origin`;
+ * otherwise `origin`, else the first matching remote.
  * Uses the git CLI so linked worktrees resolve correctly.
  */
-export async function detectProjectPath(cwd: string, instanceUrl: string): Promise<string | undefined> {
+async function detectProjectPath(cwd: string, instanceUrl: string): Promise<string | undefined> {
+  const candidates = (await readRemotes(cwd)).flatMap((remote) => {
+    const projectPath = projectPathFromUrl(remote.url, instanceUrl)
+    return projectPath ? [{ name: remote.name, projectPath }] : []
+  })
+
+  const preferred = candidates.find((c) => c.name === "upstream")
+    ?? candidates.find((c) => c.name === "origin")
+    ?? candidates[0]
+  return preferred?.projectPath
+}
+
+/**
+ * Project path of a clone URL (https, ssh or scp-like) on the given
+ * instance; undefined for other hosts or unparsable URLs.
+ */
+export function projectPathFromUrl(url: string, instanceUrl: string): string | undefined {
   const instance = new URL(instanceUrl)
-  const instanceHost = instance.host
   const instanceBasePath = instance.pathname.replace(/\/$/, "")
 
-  const url = await readRemoteUrl(cwd)
-  if (!url) return undefined
-
   const remote = parseRemoteUrl(url)
-  if (!remote || remote.host !== instanceHost) return undefined
+  if (!remote || remote.host !== instance.host) return undefined
 
   return normalizeProjectPath(remote.path, instanceBasePath)
 }
 
+/** Checked-out branch of the repo at `cwd`; undefined when detached or not a repo. */
+export async function detectCurrentBranch(cwd: string): Promise<string | undefined> {
+  const branch = await runGit(cwd, ["rev-parse", "--abbrev-ref", "HEAD"])
+  return branch && branch !== "HEAD" ? branch : undefined
+}
+
+/** REST path of a project given by path (`group/project`) or ID, e.g. `projects/group%2Fproject`. */
+export function projectApiPath(project: string): string {
+  return `projects/${encodeURIComponent(project)}`
+}
+
 /**
  * Fetch project details from the GitLab REST API.
  * Returns projectId + namespaceId.
  */
 export async function fetchProjectDetails(client: GitLabClientOptions, projectPath: string): Promise<ProjectDetails> {
-  const encoded = encodeURIComponent(projectPath)
-  const data = await get<{ id: number; namespace?: { id: number } }>(client, `projects/${encoded}`)
+  const data = await get<{ id: number; path_with_namespace?: string; namespace?: { id: number } }>(
+    client,
+    projectApiPath(projectPath),
+  )
 
   if (!data.id || !data.namespace?.id) {
     throw new Error(`Project ${projectPath}: missing id or namespace`)
@@ -46,6 +87,7 @@ export async function fetchProjectDetails(client: GitLabClientOptions, projectPa
 
   return {
     projectId: String(data.id),
+    projectPath: data.path_with_namespace ?? projectPath,
     namespaceId: String(data.namespace.id),
   }
 }
@@ -61,9 +103,11 @@ export async function resolveRootNamespaceId(client: GitLabClientOptions, namesp
     let ns: NamespaceResponse
     try {
       ns = await get<NamespaceResponse>(client, `namespaces/${currentId}`)
-    } catch {
-      // Namespace lookup failed (permissions or network) -- use the deepest ID resolved so far
-      break
+    } catch (error) {
+      // Parent groups the token cannot see -- use the deepest ID resolved so
+      // far. Anything else (network, server) would give a wrong root.
+      if (error instanceof GitLabAuthError || error instanceof GitLabNotFoundError) break
+      throw error
     }
 
     if (!ns.parent_id) {
@@ -79,27 +123,22 @@ export async function resolveRootNamespaceId(client: GitLabClientOptions, namesp
 
 // -- git helpers --
 
-async function readRemoteUrl(cwd: string): Promise<string | undefined> {
+/** Remotes of the repo at `cwd`, in config order. */
+async function readRemotes(cwd: string): Promise<Array<{ name: string; url: string }>> {
   const root = await runGit(cwd, ["rev-parse", "--path-format=absolute", "--show-toplevel"])
-  if (!root) return undefined
-
-  const origin = await runGit(root, ["remote", "get-url", "origin"])
-  if (origin) return origin
+  if (!root) return []
 
   const remotes = await runGit(root, ["config", "--get-regexp", "^remote\\..*\\.url$"])
-  if (!remotes) return undefined
-
-  const first = remotes
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .find(Boolean)
-  if (!first) return undefined
+  if (!remotes) return []
 
-  const match = /^remote\.[^.]+\.url\s+(.+)$/.exec(first)
-  return match?.[1]?.trim()
+  return remotes.split(/\r?\n/).flatMap((line) => {
+    const match = /^remote\.(.+)\.url\s+(.+)$/.exec(line.trim())
+    return match ? [{ name: match[1], url: match[2].trim() }] : []
+  })
 }
 
-async function runGit(cwd: string, args: string[]): Promise<string | undefined> {
+/** Trimmed stdout of a git command in `cwd`; undefined when empty or on failure. */
+export async function runGit(cwd: string, args: string[]): Promise<string | undefined> {
   try {
     const { stdout } = await execFileAsync("git", ["-C", cwd, ...args], { encoding: "utf8" })
     const output = String(stdout).trim()
@@ -1,5 +1,6 @@
 import { envInstanceUrl, normalizeInstanceUrl } from "../utils/url"
 import type { GitLabClientOptions } from "./client"
+import { resolveTransport } from "./transport"
 
 /**
  * Resolve GitLab credentials from an options bag and environment variables.
@@ -15,18 +16,38 @@ import type { GitLabClientOptions } from "./client"
  *   1. `options.instanceUrl`
  *   2. `GITLAB_INSTANCE_URL` / `GITLAB_URL` / `GITLAB_BASE_URL` env vars
  *   3. https://gitlab.com
+ *
+ * Project resolution order (unset means: detect it from the git remotes):
+ *   1. `options.projectPath`
+ *   2. `options.projectId` (string or number)
+ *   3. `GITLAB_DUO_PROJECT_PATH` / `GITLAB_DUO_PROJECT_ID` env vars
+ *
+ * Proxy and TLS settings come from `resolveTransport`.
  */
 export function resolveCredentials(options: Record<string, unknown> = {}): GitLabClientOptions {
   const instanceUrl = normalizeInstanceUrl(options.instanceUrl ?? envInstanceUrl())
   const token = firstNonEmptyString(options.apiKey, options.token) ?? envToken() ?? ""
 
-  return { instanceUrl, token }
+  const transport = resolveTransport(options)
+  const project = firstNonEmptyString(options.projectPath, numberToString(options.projectId))
+    ?? firstNonEmptyString(process.env.GITLAB_DUO_PROJECT_PATH, process.env.GITLAB_DUO_PROJECT_ID)
+
+  return {
+    instanceUrl,
+    token,
+    ...(transport ? { transport } : {}),
+    ...(project ? { project: project.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "") } : {}),
+  }
 }
 
 function envToken(): string | undefined {
   return process.env.GITLAB_TOKEN ?? process.env.GITLAB_OAUTH_TOKEN
 }
 
+function numberToString(value: unknown): unknown {
+  return typeof value === "number" && Number.isInteger(value) ? String(value) : value
+}
+
 function firstNonEmptyString(...values: unknown[]): string | undefined {
   for (const v of values) {
     if (typeof v === "string" && v.trim().length > 0) return v.trim()
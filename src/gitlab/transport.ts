@@ -0,0 +1,155 @@
+import fs from "node:fs"
+import path from "node:path"
+import { rootCertificates } from "node:tls"
+
+/**
+ * Proxy and TLS settings shared by the REST client and the workflow
+ * WebSocket. They are applied through Bun's `proxy` and `tls` connection
+ * options, which both `fetch` and `WebSocket` accept; Node's fetch and the
+ * `ws` package ignore them, so settings made for this plugin are refused
+ * outside Bun.
+ */
+export type Transport = {
+  httpsProxy?: string
+  httpProxy?: string
+  noProxy: string[]
+  tls?: TransportTls
+}
+
+type TransportTls = {
+  /** The system roots plus the extra bundles, so adding a CA never drops the defaults. */
+  ca?: string[]
+  cert?: string
+  key?: string
+  passphrase?: string
+}
+
+/** What to pass as `proxy` and `tls` when connecting to one URL. */
+export type ConnectionOptions = {
+  /** `false` connects directly, ignoring the proxy environment variables. */
+  proxy?: string | false
+  tls?: TransportTls
+}
+
+/**
+ * Resolve the transport from provider options and environment variables;
+ * undefined when nothing is configured.
+ *
+ *   - proxy: `proxy` option, else `HTTPS_PROXY` (`HTTP_PROXY` for http:// instances)
+ *   - bypass: `noProxy` option (string or list), else `NO_PROXY`
+ *   - extra CA bundles: `caFile` option (path or list), else `GITLAB_DUO_CA_FILE`, else `NODE_EXTRA_CA_CERTS`
+ *   - client certificate: `certFile` / `keyFile` / `keyPassphrase` options, else
+ *     `GITLAB_DUO_CLIENT_CERT` / `GITLAB_DUO_CLIENT_KEY` / `GITLAB_DUO_CLIENT_KEY_PASSPHRASE`
+ *
+ * Files are read once, here; an unreadable file throws so a typo in a path
+ * does not silently fall back to an unproxied, default-trust connection.
+ * For the same reason provider options and `GITLAB_DUO_*` variables throw
+ * outside Bun, where they would be ignored. The generic variables
+ * (`HTTPS_PROXY`, `NO_PROXY`, `NODE_EXTRA_CA_CERTS`, ...) are only read under
+ * Bun; elsewhere they are left to the runtime, as without this plugin.
+ */
+export function resolveTransport(
+  options: Record<string, unknown> = {},
+  env = process.env,
+  runtime = process.versions.bun ? "bun" : "node",
+): Transport | undefined {
+  const bun = runtime === "bun"
+  const shared: NodeJS.ProcessEnv = bun ? env : {}
+
+  const proxy = text(options.proxy)
+  const httpsProxy = proxy ?? text(shared.HTTPS_PROXY) ?? text(shared.https_proxy)
+  const httpProxy = proxy ?? text(shared.HTTP_PROXY) ?? text(shared.http_proxy)
+  const noProxy = list(options.noProxy) ?? list(shared.NO_PROXY ?? shared.no_proxy) ?? []
+
+  const caFiles = list(options.caFile) ?? list(env.GITLAB_DUO_CA_FILE) ?? list(shared.NODE_EXTRA_CA_CERTS) ?? []
+  const certFile = text(options.certFile) ?? text(env.GITLAB_DUO_CLIENT_CERT)
+  const keyFile = text(options.keyFile) ?? text(env.GITLAB_DUO_CLIENT_KEY)
+  const passphrase = text(options.keyPassphrase) ?? text(env.GITLAB_DUO_CLIENT_KEY_PASSPHRASE)
+
+  if (!bun && (httpsProxy || httpProxy || caFiles.length > 0 || certFile || keyFile)) {
+    throw new Error("Proxy and TLS settings need OpenCode's Bun runtime; Node's fetch and WebSocket would ignore them")
+  }
+  if (certFile && !keyFile) throw new Error("certFile is set but keyFile is not; a client certificate needs its key")
+  if (keyFile && !certFile) throw new Error("keyFile is set but certFile is not; a client key needs its certificate")
+
+  const tls: TransportTls = {}
+  if (caFiles.length > 0) tls.ca = [...rootCertificates, ...caFiles.map((file) => readPem(file, "CA bundle"))]
+  if (certFile && keyFile) {
+    tls.cert = readPem(certFile, "client certificate")
+    tls.key = readPem(keyFile, "client key")
+    if (passphrase) tls.passphrase = passphrase
+  }
+
+  const hasTls = Object.keys(tls).length > 0
+  if (!httpsProxy && !httpProxy && !hasTls) return undefined
+
+  return {
+    ...(httpsProxy ? { httpsProxy } : {}),
+    ...(httpProxy ? { httpProxy } : {}),
+    noProxy,
+    ...(hasTls ? { tls } : {}),
+  }
+}
+
+/** Connection options for `url` (http(s):// or ws(s)://); empty without a transport. */
+export function connectionOptions(transport: Transport | undefined, url: string): ConnectionOptions {
+  if (!transport) return {}
+
+  const target = new URL(url)
+  const secure = target.protocol === "https:" || target.protocol === "wss:"
+  const proxy = secure ? transport.httpsProxy : transport.httpProxy
+  const port = target.port || (secure ? "443" : "80")
+
+  return {
+    // Explicitly direct when bypassed, so Bun does not pick the proxy up from the environment.
+    ...(proxy ? { proxy: bypassesProxy(target.hostname, port, transport.noProxy) ? false : proxy } : {}),
+    ...(transport.tls ? { tls: transport.tls } : {}),
+  }
+}
+
+/**
+ * `NO_PROXY` matching as curl does it: `*` matches every host, an entry
+ * matches the host itself and its subdomains (a leading `.` or `*.` is
+ * ignored), and `host:port` only matches that port.
+ */
+function bypassesProxy(hostname: string, port: string, noProxy: string[]): boolean {
+  const host = hostname.replace(/^\[|\]$/g, "").toLowerCase()
+
+  return noProxy.some((raw) => {
+    const entry = raw.toLowerCase()
+    if (entry === "*") return true
+
+    // A bare IPv6 address has no port; `[::1]:8080` does.
+    const match = entry.split(":").length > 2 && !entry.startsWith("[")
+      ? undefined
+      : /^\[?(.*?)\]?(?::(\d+))?$/.exec(entry)
+    const name = (match?.[1] ?? entry).replace(/^\*?\./, "")
+    const entryPort = match?.[2]
+    if (!name || (entryPort && entryPort !== port)) return false
+
+    return host === name || host.endsWith(`.${name}`)
+  })
+}
+
+function readPem(file: string, what: string): string {
+  const resolved = path.resolve(file)
+  try {
+    return fs.readFileSync(resolved, "utf8")
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new Error(`Cannot read ${what} ${resolved}: ${reason}`)
+  }
+}
+
+function text(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : undefined
+}
+
+/** A list option, or a comma-separated string (`NO_PROXY` style). */
+function list(value: unknown): string[] | undefined {
+  const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : []
+  const out = items.flatMap((item) => (typeof item === "string" && item.trim() ? [item.trim()] : []))
+  return out.length > 0 ? out : undefined
+}
@@ -1,20 +1,23 @@
 import type { Hooks } from "@opencode-ai/plugin"
 import { PROVIDER_ID } from "../constants"
-import { type AvailableModel, loadAvailableModels } from "../gitlab/models"
+import { type AvailableModel, loadAvailableModels, parseModelCacheTtl } from "../gitlab/models"
+import type { GitLabClientOptions } from "../gitlab/client"
 import { resolveCredentials } from "../gitlab/resolve-credentials"
+import { definitionModelId, listWorkflowDefinitions } from "../workflow/definition"
 
 type PluginConfig = Parameters<NonNullable<Hooks["config"]>>[0]
 
-export async function applyRuntimeConfig(config: PluginConfig, directory: string): Promise<void> {
+/** Register the provider and its models; returns the credentials it resolved. */
+export async function applyRuntimeConfig(config: PluginConfig, directory: string): Promise<GitLabClientOptions> {
   config.provider ??= {}
 
   const current = config.provider[PROVIDER_ID] ?? {}
   const options = (current.options ?? {}) as Record<string, unknown>
-  const { instanceUrl, token } = resolveCredentials(options)
+  const client = resolveCredentials(options)
 
-  const available = await loadAvailableModels(instanceUrl, token, directory)
-  const modelIds = available.map((m) => m.id)
-  const models = toModelsConfig(available)
+  const available = await loadAvailableModels(client, directory, { ttlMs: parseModelCacheTtl(options) })
+  const models = toModelsConfig(available, listWorkflowDefinitions(options))
+  const modelIds = Object.keys(models)
 
   config.provider[PROVIDER_ID] = {
     ...current,
@@ -22,19 +25,29 @@ export async function applyRuntimeConfig(config: PluginConfig, directory: string
     whitelist: modelIds,
     options: {
       ...options,
-      instanceUrl,
+      instanceUrl: client.instanceUrl,
     },
     models: {
       ...(current.models ?? {}),
       ...models,
     },
   }
+
+  return client
 }
 
-function toModelsConfig(available: AvailableModel[]): Record<string, { id: string; name: string }> {
+/**
+ * One entry per available model, plus one per model and extra workflow
+ * definition (e.g. `duo-chat-sonnet-4-5@software_development`).
+ */
+function toModelsConfig(available: AvailableModel[], definitions: string[]): Record<string, { id: string; name: string }> {
   const out: Record<string, { id: string; name: string }> = {}
   for (const m of available) {
     out[m.id] = { id: m.id, name: m.name }
+    for (const definition of definitions) {
+      const id = definitionModelId(m.id, definition)
+      out[id] = { id, name: `${m.name} (${definition})` }
+    }
   }
   return out
 }
@@ -0,0 +1,264 @@
+import { tool, type ToolContext, type ToolDefinition } from "@opencode-ai/plugin"
+import { REFRESH_MODELS_TOOL_NAME } from "../constants"
+import type { GitLabClientOptions } from "../gitlab/client"
+import { type Issue, getIssue, searchIssues } from "../gitlab/issues"
+import {
+  type Discussion,
+  type MergeRequestDiff,
+  getMergeRequest,
+  getMergeRequestDiffs,
+  getMergeRequestDiscussions,
+  isUnresolved,
+} from "../gitlab/merge-requests"
+import { loadAvailableModels } from "../gitlab/models"
+import { getJobTrace, getLatestPipeline, getPipeline, listFailedJobs } from "../gitlab/pipelines"
+import { detectCurrentBranch, resolveProject } from "../gitlab/project"
+import { cleanJobTrace } from "../utils/ansi"
+import { tailLines, truncateOutput } from "../utils/truncate"
+
+/** Per-call output cap, in characters. */
+const OUTPUT_LIMIT = 30_000
+const MAX_PER_PAGE = 100
+const DEFAULT_LOG_LINES = 200
+const MAX_LOG_LINES = 2000
+
+const projectArg = tool.schema.string().optional()
+  .describe("Project path or ID (default: the project of the current git remote)")
+const pageArg = tool.schema.number().int().min(1).optional().describe("Page number (default: 1)")
+const perPageArg = tool.schema.number().int().min(1).max(MAX_PER_PAGE).optional()
+  .describe("Results per page (default: 20)")
+
+/**
+ * Read-only issue, merge request and CI tools, plus the model list refresh.
+ * Like every OpenCode tool they are also registered with DWS as MCP tools, so
+ * the Duo agent can call them.
+ * `getClient` returns the credentials resolved by the config hook.
+ */
+export function createGitLabTools(getClient: () => GitLabClientOptions): Record<string, ToolDefinition> {
+  const withProject = async (name: string, ctx: ToolContext, project: string | undefined) => {
+    const client = getClient()
+    const resolved = project ?? await resolveProject(ctx.directory, client)
+    if (!resolved) {
+      throw new Error(`No GitLab project found for ${ctx.directory} on ${client.instanceUrl}; `
+        + "pass `project` explicitly or set the `projectPath` provider option")
+    }
+    await ctx.ask({ permission: name, patterns: [resolved], always: ["*"], metadata: { project: resolved } })
+    return { client, project: resolved }
+  }
+
+  return {
+    gitlab_issue_get: tool({
+      description: "Get a GitLab issue by IID: title, state, labels, assignees and description.",
+      args: {
+        iid: tool.schema.number().int().min(1).describe("Issue IID (the number shown as #123)"),
+        project: projectArg,
+      },
+      async execute(args, ctx) {
+        const { client, project } = await withProject("gitlab_issue_get", ctx, args.project)
+        const issue = await getIssue(client, project, args.iid)
+        return truncateOutput(formatIssue(issue), OUTPUT_LIMIT)
+      },
+    }),
+    gitlab_issue_search: tool({
+      description: "Search a GitLab project's issues by text, state and labels, most recently updated first.",
+      args: {
+        search: tool.schema.string().optional().describe("Text to search for in titles and descriptions"),
+        state: tool.schema.enum(["opened", "closed", "all"]).optional().describe("Issue state (default: opened)"),
+        labels: tool.schema.array(tool.schema.string()).optional().describe("Only issues with all of these labels"),
+        project: projectArg,
+        page: pageArg,
+        per_page: perPageArg,
+      },
+      async execute(args, ctx) {
+        const { client, project } = await withProject("gitlab_issue_search", ctx, args.project)
+        const result = await searchIssues(client, project, {
+          search: args.search,
+          state: args.state,
+          labels: args.labels,
+          page: args.page,
+          perPage: args.per_page,
+        })
+        const lines = result.items.map((issue) =>
+          `#${issue.iid} [${issue.state}] ${issue.title}${issue.labels?.length ? ` (${issue.labels.join(", ")})` : ""} — ${issue.web_url}`,
+        )
+        return truncateOutput(withPaging(lines.join("\n") || "No matching issues.", result), OUTPUT_LIMIT)
+      },
+    }),
+    gitlab_mr_get: tool({
+      description: "Get a GitLab merge request by IID: branches, state, merge status, pipeline and description.",
+      args: {
+        iid: tool.schema.number().int().min(1).describe("Merge request IID (the number shown as !123)"),
+        project: projectArg,
+      },
+      async execute(args, ctx) {
+        const { client, project } = await withProject("gitlab_mr_get", ctx, args.project)
+        const mr = await getMergeRequest(client, project, args.iid)
+        const lines = [
+          `!${mr.iid} ${mr.title}`,
+          `State: ${mr.state}${mr.draft ? " (draft)" : ""}`,
+          `Branches: ${mr.source_branch} → ${mr.target_branch}`,
+          field("Author", mr.author ? `@${mr.author.username}` : undefined),
+          field("Assignees", mr.assignees?.map((u) => `@${u.username}`).join(", ")),
+          field("Reviewers", mr.reviewers?.map((u) => `@${u.username}`).join(", ")),
+          field("Labels", mr.labels?.join(", ")),
+          field("Merge status", mr.detailed_merge_status),
+          field("Pipeline", mr.head_pipeline ? `#${mr.head_pipeline.id} ${mr.head_pipeline.status}` : undefined),
+          `URL: ${mr.web_url}`,
+          `Updated: ${mr.updated_at}`,
+          "",
+          mr.description?.trim() || "(no description)",
+        ]
+        return truncateOutput(lines.filter((line) => line !== undefined).join("\n"), OUTPUT_LIMIT)
+      },
+    }),
+    gitlab_mr_diff: tool({
+      description: "Get the changes of a GitLab merge request as unified diffs, one file per entry.",
+      args: {
+        iid: tool.schema.number().int().min(1).describe("Merge request IID"),
+        project: projectArg,
+        page: pageArg,
+        per_page: perPageArg,
+      },
+      async execute(args, ctx) {
+        const { client, project } = await withProject("gitlab_mr_diff", ctx, args.project)
+        const result = await getMergeRequestDiffs(client, project, args.iid, { page: args.page, perPage: args.per_page })
+        const text = result.items.map(formatDiff).join("\n") || "No changes."
+        return truncateOutput(withPaging(text, result), OUTPUT_LIMIT)
+      },
+    }),
+    gitlab_mr_discussions: tool({
+      description: "Get the discussion threads of a GitLab merge request, including review comments on lines.",
+      args: {
+        iid: tool.schema.number().int().min(1).describe("Merge request IID"),
+        unresolved_only: tool.schema.boolean().optional().describe("Only threads that still need resolving"),
+        project: projectArg,
+        page: pageArg,
+        per_page: perPageArg,
+      },
+      async execute(args, ctx) {
+        const { client, project } = await withProject("gitlab_mr_discussions", ctx, args.project)
+        const result = await getMergeRequestDiscussions(client, project, args.iid, { page: args.page, perPage: args.per_page })
+        const threads = result.items
+          .filter((d) => !args.unresolved_only || isUnresolved(d))
+          .map(formatDiscussion)
+          .filter(Boolean)
+        return truncateOutput(withPaging(threads.join("\n\n") || "No discussions.", result), OUTPUT_LIMIT)
+      },
+    }),
+    gitlab_pipeline_failures: tool({
+      description: "Find the latest CI pipeline of a branch (default: the current git branch) and list its failed jobs. "
+        + "Use gitlab_job_log to read why a job failed.",
+      args: {
+        ref: tool.schema.string().optional().describe("Branch or tag (default: the checked-out branch)"),
+        pipeline_id: tool.schema.number().int().min(1).optional().describe("Inspect this pipeline instead of the latest one"),
+        project: projectArg,
+      },
+      async execute(args, ctx) {
+        const { client, project } = await withProject("gitlab_pipeline_failures", ctx, args.project)
+
+        let pipeline
+        if (args.pipeline_id) {
+          pipeline = await getPipeline(client, project, args.pipeline_id)
+        } else {
+          const ref = args.ref ?? await detectCurrentBranch(ctx.directory)
+          if (!ref) throw new Error("Could not determine the current branch (detached HEAD?); pass `ref` or `pipeline_id`")
+          pipeline = await getLatestPipeline(client, project, ref)
+          if (!pipeline) return `No pipelines found for ${ref} in ${project}.`
+        }
+
+        const jobs = await listFailedJobs(client, project, pipeline.id)
+        const lines = [
+          `Pipeline #${pipeline.id} on ${pipeline.ref} (${pipeline.sha.slice(0, 8)}): ${pipeline.status}`,
+          `URL: ${pipeline.web_url}`,
+          "",
+          jobs.length === 0 ? "No failed jobs." : "Failed jobs:",
+          ...jobs.map((job) =>
+            `- job ${job.id} ${job.name} (stage ${job.stage})`
+            + (job.failure_reason ? `: ${job.failure_reason}` : "")
+            + (job.allow_failure ? " [allowed to fail]" : ""),
+          ),
+        ]
+        return truncateOutput(lines.join("\n"), OUTPUT_LIMIT)
+      },
+    }),
+    gitlab_job_log: tool({
+      description: "Read the end of a CI job's log, with colour codes and section markers removed.",
+      args: {
+        job_id: tool.schema.number().int().min(1).describe("Job ID, as listed by gitlab_pipeline_failures"),
+        lines: tool.schema.number().int().min(1).max(MAX_LOG_LINES).optional()
+          .describe(`How many lines from the end to return (default: ${DEFAULT_LOG_LINES})`),
+        project: projectArg,
+      },
+      async execute(args, ctx) {
+        const { client, project } = await withProject("gitlab_job_log", ctx, args.project)
+        const trace = cleanJobTrace(await getJobTrace(client, project, args.job_id))
+        return tailLines(trace, args.lines ?? DEFAULT_LOG_LINES, OUTPUT_LIMIT) || "(empty log)"
+      },
+    }),
+    [REFRESH_MODELS_TOOL_NAME]: tool({
+      description: "Refetch the GitLab Duo models available to this project, bypassing the model cache.",
+      args: {},
+      async execute(_args, ctx) {
+        await ctx.ask({
+          permission: REFRESH_MODELS_TOOL_NAME,
+          patterns: ["*"],
+          always: ["*"],
+          metadata: {},
+        })
+
+        const models = await loadAvailableModels(getClient(), ctx.directory, { refresh: true })
+        const list = models.map((m) => `- ${m.id} (${m.name})`).join("\n")
+        // The provider's model list is registered by the config hook, at startup.
+        return `Available models:\n${list}\n\nRestart OpenCode to update the model picker.`
+      },
+    }),
+  }
+}
+
+function formatIssue(issue: Issue): string {
+  return [
+    `#${issue.iid} ${issue.title}`,
+    `State: ${issue.state}`,
+    field("Author", issue.author ? `@${issue.author.username}` : undefined),
+    field("Assignees", issue.assignees?.map((u) => `@${u.username}`).join(", ")),
+    field("Labels", issue.labels?.join(", ")),
+    field("Milestone", issue.milestone?.title),
+    field("Due", issue.due_date ?? undefined),
+    `URL: ${issue.web_url}`,
+    `Updated: ${issue.updated_at}`,
+    "",
+    issue.description?.trim() || "(no description)",
+  ].filter((line) => line !== undefined).join("\n")
+}
+
+function formatDiff(diff: MergeRequestDiff): string {
+  const status = diff.new_file ? " (new)" : diff.deleted_file ? " (deleted)" : diff.renamed_file ? " (renamed)" : ""
+  return `diff --git a/${diff.old_path} b/${diff.new_path}${status}\n${diff.diff}`
+}
+
+/** System notes (label changes, pushes, ...) are left out. */
+function formatDiscussion(discussion: Discussion): string {
+  const notes = discussion.notes.filter((note) => !note.system)
+  if (notes.length === 0) return ""
+
+  const first = notes[0]
+  const position = first.position
+  const line = position?.new_line ?? position?.old_line
+  const location = position ? ` on ${position.new_path ?? position.old_path}${line ? `:${line}` : ""}` : ""
+  const state = first.resolvable ? (isUnresolved(discussion) ? " [unresolved]" : " [resolved]") : ""
+
+  return [
+    `Thread${location}${state}:`,
+    ...notes.map((note) => `- @${note.author?.username ?? "unknown"}: ${note.body.trim()}`),
+  ].join("\n")
+}
+
+function field(label: string, value: string | undefined): string | undefined {
+  return value ? `${label}: ${value}` : undefined
+}
+
+function withPaging(text: string, page: { nextPage?: number; total?: number }): string {
+  if (!page.nextPage) return text
+  const total = page.total ? ` of ${page.total}` : ""
+  return `${text}\n\n[more results${total} — request page ${page.nextPage}]`
+}
@@ -1,10 +1,20 @@
+import path from "node:path"
 import { tool, type Hooks, type PluginInput } from "@opencode-ai/plugin"
+import { APPROVAL_TOOL_NAME, LIST_DIR_TOOL_NAME } from "../constants"
+import type { GitLabClientOptions } from "../gitlab/client"
+import { resolveCredentials } from "../gitlab/resolve-credentials"
+import { agentWorkflowDefinition } from "../workflow/definition"
 import { applyRuntimeConfig } from "./config"
+import { createGitLabTools } from "./gitlab-tools"
+import { LIST_DIR_DEFAULT_DEPTH, LIST_DIR_DEFAULT_LIMIT, LIST_DIR_MAX_DEPTH, listDirectory } from "./list-dir"
 
 export async function createPluginHooks(input: PluginInput): Promise<Hooks> {
+  // Replaced by the provider options' credentials once the config hook runs.
+  let client: GitLabClientOptions = resolveCredentials()
 
   return {
     tool: {
+      ...createGitLabTools(() => client),
       todoread: tool({
         description: "Use this tool to read your todo list",
         args: {},
@@ -24,8 +34,52 @@ export async function createPluginHooks(input: PluginInput): Promise<Hooks> {
           return JSON.stringify(payload, null, 2)
         },
       }),
+      [LIST_DIR_TOOL_NAME]: tool({
+        description: "List the contents of a directory. Directories end with `/`, files show their size; "
+          + "paths ignored by git are skipped.",
+        args: {
+          directory: tool.schema.string().optional().describe("Directory to list, relative to the project (default: .)"),
+          depth: tool.schema.number().int().min(1).max(LIST_DIR_MAX_DEPTH).optional()
+            .describe(`How many levels to descend (default: ${LIST_DIR_DEFAULT_DEPTH})`),
+          limit: tool.schema.number().int().min(1).optional()
+            .describe(`Maximum number of entries to return (default: ${LIST_DIR_DEFAULT_LIMIT})`),
+        },
+        async execute(args, ctx) {
+          const directory = path.resolve(ctx.directory, args.directory ?? ".")
+          await ctx.ask({
+            permission: "list",
+            patterns: [directory],
+            always: ["*"],
+            metadata: { path: directory },
+          })
+
+          return listDirectory(directory, { depth: args.depth, limit: args.limit })
+        },
+      }),
+      [APPROVAL_TOOL_NAME]: tool({
+        description: "Ask the user to approve a GitLab Duo tool call. Used by the `ask` approval policy.",
+        args: {
+          tool: tool.schema.string().describe("Name of the Duo tool awaiting approval"),
+          args: tool.schema.string().optional().describe("JSON-encoded tool arguments"),
+        },
+        async execute(args, ctx) {
+          // Throws when the user rejects; the tool error becomes a DWS rejection.
+          await ctx.ask({
+            permission: APPROVAL_TOOL_NAME,
+            patterns: [args.tool],
+            always: [args.tool],
+            metadata: {
+              tool: args.tool,
+              args: args.args ?? "{}",
+            },
+          })
+          return `Approved ${args.tool}`
+        },
+      }),
+    },
+    config: async (config) => {
+      client = await applyRuntimeConfig(config, input.directory)
     },
-    config: async (config) => applyRuntimeConfig(config, input.directory),
     "chat.message": async ({ sessionID }, { parts }) => {
       const text = parts
         .filter((p) => p.type === "text" && !("synthetic" in p && p.synthetic))
@@ -44,9 +98,13 @@ export async function createPluginHooks(input: PluginInput): Promise<Hooks> {
     "chat.params": async (context, output) => {
       if (!isGitLabProvider(context.model)) return
       if (isUtilityAgent(context.agent)) return
+      const agent = agentName(context.agent)
+      const workflowDefinition = agentWorkflowDefinition(context.provider.options, agent)
       output.options = {
         ...output.options,
         workflowSessionID: context.sessionID,
+        agent,
+        ...(workflowDefinition ? { workflowDefinition } : {}),
       }
     },
     "chat.headers": async (context, output) => {
@@ -63,8 +121,11 @@ export async function createPluginHooks(input: PluginInput): Promise<Hooks> {
 const UTILITY_AGENTS = new Set(["title", "compaction"])
 
 function isUtilityAgent(agent: string | { name: string }): boolean {
-  const name = typeof agent === "string" ? agent : agent.name
-  return UTILITY_AGENTS.has(name)
+  return UTILITY_AGENTS.has(agentName(agent))
+}
+
+function agentName(agent: string | { name: string }): string {
+  return typeof agent === "string" ? agent : agent.name
 }
 
 function isGitLabProvider(model: { providerID: string; api?: { npm?: string } }): boolean {
@@ -0,0 +1,94 @@
+import { execFile } from "node:child_process"
+import { readdir, stat } from "node:fs/promises"
+import path from "node:path"
+import { promisify } from "node:util"
+
+const execFileAsync = promisify(execFile)
+
+export const LIST_DIR_DEFAULT_DEPTH = 1
+export const LIST_DIR_MAX_DEPTH = 5
+export const LIST_DIR_DEFAULT_LIMIT = 500
+
+type ListDirOptions = {
+  depth?: number
+  limit?: number
+}
+
+/**
+ * Render a directory tree the way the Duo agent expects from `list_dir`:
+ * one entry per line, indented by depth, directories suffixed with `/` and
+ * files followed by their size. Paths ignored by git are skipped.
+ */
+export async function listDirectory(directory: string, options: ListDirOptions = {}): Promise<string> {
+  const depth = clamp(options.depth ?? LIST_DIR_DEFAULT_DEPTH, 1, LIST_DIR_MAX_DEPTH)
+  const limit = Math.max(1, options.limit ?? LIST_DIR_DEFAULT_LIMIT)
+
+  const info = await stat(directory).catch(() => undefined)
+  if (!info) throw new Error(`Directory not found: ${directory}`)
+  if (!info.isDirectory()) throw new Error(`Not a directory: ${directory}`)
+
+  const ignored = await gitIgnoredPaths(directory)
+  const lines: string[] = []
+  let omitted = 0
+
+  const walk = async (relative: string, level: number): Promise<void> => {
+    const entries = await readdir(path.join(directory, relative), { withFileTypes: true }).catch(() => [])
+    entries.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+
+    for (const entry of entries) {
+      if (entry.name === ".git") continue
+      const child = relative ? `${relative}/${entry.name}` : entry.name
+      const isDirectory = entry.isDirectory()
+      if (ignored.has(isDirectory ? `${child}/` : child)) continue
+
+      if (lines.length >= limit) {
+        omitted++
+        continue
+      }
+
+      const indent = "  ".repeat(level)
+      if (isDirectory) {
+        lines.push(`${indent}${entry.name}/`)
+        if (level + 1 < depth) await walk(child, level + 1)
+        continue
+      }
+
+      const size = await stat(path.join(directory, child)).then((s) => s.size).catch(() => undefined)
+      lines.push(size === undefined ? `${indent}${entry.name}` : `${indent}${entry.name} (${formatSize(size)})`)
+    }
+  }
+
+  await walk("", 0)
+
+  if (lines.length === 0) return "(empty directory)"
+  if (omitted > 0) lines.push(`... ${omitted} more entries not shown (limit ${limit})`)
+  return lines.join("\n")
+}
+
+/**
+ * Paths under `directory` that git ignores, relative to it; ignored
+ * directories end with `/`. Empty outside a git work tree.
+ */
+async function gitIgnoredPaths(directory: string): Promise<Set<string>> {
+  try {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["-C", directory, "ls-files", "-z", "--others", "--ignored", "--exclude-standard", "--directory"],
+      { encoding: "utf8", maxBuffer: 16 * 1024 * 1024 },
+    )
+    return new Set(String(stdout).split("\0").filter(Boolean))
+  } catch {
+    return new Set()
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function clamp(value: number, min: number, max: number): number {
+  if (!Number.isFinite(value)) return min
+  return Math.min(max, Math.max(min, Math.floor(value)))
+}
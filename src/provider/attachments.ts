@@ -0,0 +1,118 @@
+import path from "node:path"
+import type {
+  LanguageModelV2CallWarning,
+  LanguageModelV2FilePart,
+  LanguageModelV2Prompt,
+} from "@ai-sdk/provider"
+import type { AdditionalContext } from "../workflow/types"
+
+/** Larger text attachments are dropped with a warning rather than sent. */
+const MAX_ATTACHMENT_BYTES = 256 * 1024
+
+const TEXT_MEDIA_TYPES = new Set([
+  "application/json",
+  "application/javascript",
+  "application/typescript",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/toml",
+  "application/x-sh",
+  "application/sql",
+  "application/graphql",
+])
+
+/**
+ * Media types accepted as attachments. URLs are never fetched by the
+ * provider, so no URL patterns are declared -- the AI SDK downloads them.
+ */
+export const SUPPORTED_ATTACHMENT_URLS: Record<string, RegExp[]> = {
+  "text/*": [],
+  ...Object.fromEntries([...TEXT_MEDIA_TYPES].map((type) => [type, []])),
+}
+
+type ExtractedAttachments = {
+  context: AdditionalContext[]
+  warnings: LanguageModelV2CallWarning[]
+}
+
+/**
+ * Convert the `file` parts of the last user message into `file` context
+ * entries. DWS has no image (or other binary) context category, so those
+ * attachments produce a warning instead of being dropped silently.
+ */
+export function extractAttachments(prompt: LanguageModelV2Prompt): ExtractedAttachments {
+  const result: ExtractedAttachments = { context: [], warnings: [] }
+
+  const message = lastUserMessage(prompt)
+  if (!message) return result
+
+  const files = message.content.filter((part): part is LanguageModelV2FilePart => part.type === "file")
+  files.forEach((part, index) => {
+    const name = part.filename ?? `attachment-${index + 1}`
+
+    if (!isTextMediaType(part.mediaType)) {
+      result.warnings.push({
+        type: "other",
+        message: `Attachment ${name} (${part.mediaType}) was not sent: the Duo Workflow Service only accepts text attachments`,
+      })
+      return
+    }
+
+    const bytes = decodeData(part.data)
+    if (!bytes) {
+      result.warnings.push({ type: "other", message: `Attachment ${name} was not sent: remote URLs are not supported` })
+      return
+    }
+    if (bytes.byteLength > MAX_ATTACHMENT_BYTES) {
+      result.warnings.push({
+        type: "other",
+        message: `Attachment ${name} was not sent: ${bytes.byteLength} bytes exceeds the ${MAX_ATTACHMENT_BYTES} byte limit`,
+      })
+      return
+    }
+
+    result.context.push({
+      category: "file",
+      id: name,
+      content: bytes.toString("utf8"),
+      metadata: JSON.stringify({
+        title: path.basename(name),
+        enabled: true,
+        subType: "file",
+        relativePath: name,
+      }),
+    })
+  })
+
+  return result
+}
+
+function lastUserMessage(prompt: LanguageModelV2Prompt) {
+  for (let i = prompt.length - 1; i >= 0; i--) {
+    const message = prompt[i]
+    if (message.role === "user") return message
+  }
+  return undefined
+}
+
+function isTextMediaType(mediaType: string): boolean {
+  const type = mediaType.split(";")[0].trim().toLowerCase()
+  return type.startsWith("text/") || TEXT_MEDIA_TYPES.has(type)
+}
+
+/** Uint8Array, base64 string, or `data:` URL; undefined for other URLs. */
+function decodeData(data: LanguageModelV2FilePart["data"]): Buffer | undefined {
+  if (data instanceof Uint8Array) return Buffer.from(data)
+  if (typeof data === "string") return Buffer.from(data, "base64")
+
+  if (data.protocol !== "data:") return undefined
+  const href = data.href
+  const comma = href.indexOf(",")
+  if (comma === -1) return undefined
+  const header = href.slice(0, comma)
+  const payload = href.slice(comma + 1)
+  return header.endsWith(";base64")
+    ? Buffer.from(payload, "base64")
+    : Buffer.from(decodeURIComponent(payload), "utf8")
+}
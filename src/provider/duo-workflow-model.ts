@@ -2,54 +2,122 @@ import { randomUUID } from "node:crypto"
 import type {
   LanguageModelV2,
   LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+  LanguageModelV2FinishReason,
   LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
+  SharedV2ProviderMetadata,
 } from "@ai-sdk/provider"
-import { PROVIDER_ID } from "../constants"
+import { APPROVAL_TOOL_NAME, DEFAULT_WORKFLOW_DEFINITION, PROVIDER_ID } from "../constants"
 import type { GitLabClientOptions } from "../gitlab/client"
 import { WorkflowSession, type WorkflowToolsConfig } from "../workflow/session"
 import { extractGoal } from "./prompt"
+import { SUPPORTED_ATTACHMENT_URLS, extractAttachments } from "./attachments"
 import { extractToolResults, extractSystemPrompt, sanitizeSystemPrompt, extractAgentReminders } from "./prompt-utils"
 import { mapDuoToolRequest, type MappedToolCall } from "./tool-mapping"
-import { readSessionID } from "./session-context"
+import { toMcpTools } from "./mcp-tools"
+import { readAgentName, readSessionID, readWorkflowDefinition } from "./session-context"
+import { buildMergeRequestContext } from "./merge-request-context"
 import { buildSystemContext } from "./system-context"
+import { type TokenEstimator, TurnUsage, estimateTokens } from "./usage"
 import type { AdditionalContext } from "../workflow/types"
 import { loadWorkflowId, saveWorkflowId } from "../workflow/session-store"
-import { buildFlowConfig } from "../workflow/flow-config"
+import { type ApprovalPolicy, approvalAccepted, approvalRejected } from "../workflow/approval-policy"
+import type { GitCommandPolicy } from "../workflow/git-policy"
+import type { HttpRequestPolicy } from "../workflow/http-policy"
+import { splitModelId } from "../workflow/definition"
+import { type FlowConfigSources, buildFlowConfig, loadFlowConfig } from "../workflow/flow-config"
 
 /**
- * Session cache keyed by `instanceUrl::modelId::sessionID`.
+ * Session cache keyed by `instanceUrl::modelId::sessionID` (plus the
+ * workflow definition when it isn't "chat").
  * Sessions are removed when `disposeSession` is called, preventing
  * unbounded growth during long-running processes.
  */
 const sessions = new Map<string, WorkflowSession>()
 
-/** Token usage is not tracked by the workflow service. */
-const UNKNOWN_USAGE = {
+/** Fallback when a stream ends without a finish part. */
+const UNKNOWN_USAGE: LanguageModelV2Usage = {
   inputTokens: undefined,
   outputTokens: undefined,
   totalTokens: undefined,
-} as const
+}
 
 export class DuoWorkflowModel implements LanguageModelV2 {
   readonly specificationVersion = "v2" as const
   readonly provider = PROVIDER_ID
   readonly modelId: string
-  readonly supportedUrls = {}
+  readonly supportedUrls = SUPPORTED_ATTACHMENT_URLS
+  #dwsModelId: string
+  #workflowDefinition: string
   #client: GitLabClientOptions
   #cwd: string
   #toolsConfig: WorkflowToolsConfig | undefined
+  #tokenEstimator: TokenEstimator
+  #approvalPolicy: ApprovalPolicy | undefined
+  #httpPolicy: HttpRequestPolicy | undefined
+  #gitPolicy: GitCommandPolicy | undefined
+  #recordDir: string | undefined
+  #replayFile: string | undefined
+  #mergeRequestContext: boolean
+  #builtinRules: boolean
+  #flowConfigs: FlowConfigSources | undefined
+  #lenientProtocol: boolean
+  #actionTimeoutMs: number | undefined
 
   // Tool tracking state (per model instance, reset on session change)
   #pendingToolRequests = new Map<string, Record<string, never>>()
+  #pendingApprovals = new Map<string, string>()
+  /** Approval tool call ID → DWS request ID of a standalone action awaiting permission. */
+  #pendingActionApprovals = new Map<string, string>()
   #multiCallGroups = new Map<string, { subIds: string[]; labels: string[]; collected: Map<string, string> }>()
   #sentToolCallIds = new Set<string>()
   #lastSentGoal: string | null = null
   #stateSessionId: string | undefined
 
-  constructor(modelId: string, client: GitLabClientOptions, cwd?: string) {
+  constructor(modelId: string, client: GitLabClientOptions, cwd?: string, options?: {
+    /** Replaces the default ~4 chars/token heuristic used for usage reporting. */
+    tokenEstimator?: TokenEstimator
+    /** How DWS tool approval requests are answered; defaults to auto-approve. */
+    approvalPolicy?: ApprovalPolicy
+    /** Which gitlab_api_request calls are executed; writes always ask first. */
+    httpPolicy?: HttpRequestPolicy
+    /** Which run_git_command calls are run; mutating ones always ask first. */
+    gitPolicy?: GitCommandPolicy
+    /** Used unless the model ID or the call's provider options select one. */
+    workflowDefinition?: string
+    /** Directory to record WebSocket sessions into, for debugging. */
+    recordDir?: string
+    /** Recording to replay instead of connecting to GitLab. */
+    replayFile?: string
+    /** Send the open merge request of the current branch as context. */
+    mergeRequestContext?: boolean
+    /** Send the built-in tool orchestration rules; rules files are sent either way. */
+    builtinRules?: boolean
+    /** User-supplied flow configs, replacing the generated one. */
+    flowConfigs?: FlowConfigSources
+    /** Ignore unknown DWS actions with a warning instead of failing the turn. */
+    lenientProtocol?: boolean
+    /** How long a DWS action may go unanswered before it is answered with an error. */
+    actionTimeoutMs?: number
+  }) {
+    const split = splitModelId(modelId)
     this.modelId = modelId
+    this.#dwsModelId = split.modelId
+    this.#workflowDefinition = split.workflowDefinition ?? options?.workflowDefinition ?? DEFAULT_WORKFLOW_DEFINITION
     this.#client = client
     this.#cwd = cwd ?? process.cwd()
+    this.#tokenEstimator = options?.tokenEstimator ?? estimateTokens
+    this.#approvalPolicy = options?.approvalPolicy
+    this.#httpPolicy = options?.httpPolicy
+    this.#gitPolicy = options?.gitPolicy
+    this.#recordDir = options?.recordDir
+    this.#replayFile = options?.replayFile
+    this.#mergeRequestContext = options?.mergeRequestContext ?? false
+    this.#builtinRules = options?.builtinRules ?? true
+    this.#flowConfigs = options?.flowConfigs
+    this.#lenientProtocol = options?.lenientProtocol ?? false
+    this.#actionTimeoutMs = options?.actionTimeoutMs
   }
 
   /**
@@ -64,14 +132,21 @@ export class DuoWorkflowModel implements LanguageModelV2 {
 
   async doGenerate(options: LanguageModelV2CallOptions) {
     let text = ""
+    let usage = UNKNOWN_USAGE
+    let providerMetadata: SharedV2ProviderMetadata | undefined
     const { stream } = await this.doStream(options)
     for await (const part of stream) {
       if (part.type === "text-delta") text += part.delta
+      if (part.type === "finish") {
+        usage = part.usage
+        providerMetadata = part.providerMetadata
+      }
     }
     return {
       content: [{ type: "text" as const, text }],
       finishReason: "stop" as const,
-      usage: UNKNOWN_USAGE,
+      usage,
+      providerMetadata,
       warnings: [],
     }
   }
@@ -81,13 +156,18 @@ export class DuoWorkflowModel implements LanguageModelV2 {
     if (!sessionID) throw new Error("missing workflow session ID")
 
     const goal = extractGoal(options.prompt)
+    const attachments = extractAttachments(options.prompt)
     const toolResults = extractToolResults(options.prompt)
-    const session = this.#resolveSession(sessionID)
+    const workflowDefinition = readWorkflowDefinition(options) ?? this.#workflowDefinition
+    const agent = readAgentName(options)
+    const session = this.#resolveSession(sessionID, workflowDefinition)
     const textId = randomUUID()
 
     // Reset tracking state on session change
     if (sessionID !== this.#stateSessionId) {
       this.#pendingToolRequests.clear()
+      this.#pendingApprovals.clear()
+      this.#pendingActionApprovals.clear()
       this.#multiCallGroups.clear()
       this.#sentToolCallIds.clear()
       this.#lastSentGoal = null
@@ -95,11 +175,34 @@ export class DuoWorkflowModel implements LanguageModelV2 {
     }
 
     const model = this
+    // Resolve the project before stream-start so a missing one is reported
+    // on this stream rather than the next.
+    if (!model.#replayFile) await session.loadProject()
+    // Attachments belong to the goal; only warn about them once. Other session
+    // warnings were collected between streams; those raised during this one
+    // are reported with its finish.
+    const warnings: LanguageModelV2CallWarning[] = [
+      ...(goal && goal !== model.#lastSentGoal ? attachments.warnings : []),
+      ...session.takeWarnings().map((message) => ({ type: "other" as const, message })),
+    ]
 
     return {
       stream: new ReadableStream<LanguageModelV2StreamPart>({
         start: async (controller) => {
-          controller.enqueue({ type: "stream-start", warnings: [] })
+          controller.enqueue({ type: "stream-start", warnings })
+
+          const usage = new TurnUsage(model.#tokenEstimator)
+          const finish = (finishReason: LanguageModelV2FinishReason) => {
+            // OpenCode runs the tool calls (and asks for permission) between streams.
+            if (finishReason === "tool-calls") session.pauseActionTimers()
+            controller.enqueue({
+              type: "finish",
+              finishReason,
+              usage: usage.toUsage(),
+              providerMetadata: workflowMetadata(session),
+            })
+            controller.close()
+          }
 
           // Abort handling
           const onAbort = () => session.abort()
@@ -111,7 +214,10 @@ export class DuoWorkflowModel implements LanguageModelV2 {
             if (!session.hasStarted) {
               model.#sentToolCallIds.clear()
               for (const r of toolResults) {
-                if (!model.#pendingToolRequests.has(r.toolCallId)) {
+                const pending = model.#pendingToolRequests.has(r.toolCallId)
+                  || model.#pendingApprovals.has(r.toolCallId)
+                  || model.#pendingActionApprovals.has(r.toolCallId)
+                if (!pending) {
                   model.#sentToolCallIds.add(r.toolCallId)
                 }
               }
@@ -152,7 +258,9 @@ export class DuoWorkflowModel implements LanguageModelV2 {
                     const value = group.collected.get(group.subIds[i]) ?? ""
                     result[label] = { content: value }
                   }
-                  session.sendToolResult(originalId, JSON.stringify(result))
+                  const payload = JSON.stringify(result)
+                  session.sendToolResult(originalId, payload)
+                  usage.addInput(payload)
                   model.#multiCallGroups.delete(originalId)
                   model.#pendingToolRequests.delete(originalId)
                   sentToolResults = true
@@ -160,6 +268,32 @@ export class DuoWorkflowModel implements LanguageModelV2 {
                 continue
               }
 
+              // Answer to an approval request (`ask` policy): a rejected
+              // permission prompt surfaces as a tool error.
+              const approvedTool = model.#pendingApprovals.get(result.toolCallId)
+              if (approvedTool !== undefined) {
+                session.submitApproval(
+                  result.error
+                    ? approvalRejected(`The user rejected the ${approvedTool} tool call`)
+                    : approvalAccepted(),
+                )
+                sentToolResults = true
+                model.#sentToolCallIds.add(result.toolCallId)
+                model.#pendingApprovals.delete(result.toolCallId)
+                continue
+              }
+
+              // Answer to a standalone action (API write, mutating git
+              // command) that needed permission: run it or reject it.
+              const actionRequestId = model.#pendingActionApprovals.get(result.toolCallId)
+              if (actionRequestId !== undefined) {
+                session.answerActionApproval(actionRequestId, !result.error)
+                sentToolResults = true
+                model.#sentToolCallIds.add(result.toolCallId)
+                model.#pendingActionApprovals.delete(result.toolCallId)
+                continue
+              }
+
               // Single tool result
               const pending = model.#pendingToolRequests.get(result.toolCallId)
               if (!pending) {
@@ -168,11 +302,15 @@ export class DuoWorkflowModel implements LanguageModelV2 {
               }
 
               session.sendToolResult(result.toolCallId, result.output, result.error)
+              usage.addInput(result.output)
+              usage.addInput(result.error)
               sentToolResults = true
               model.#sentToolCallIds.add(result.toolCallId)
               model.#pendingToolRequests.delete(result.toolCallId)
             }
 
+            session.resumeActionTimers()
+
             // ── Phase 2: Send start request for new user messages ───
             const isNewGoal = goal && goal !== model.#lastSentGoal
             if (!sentToolResults && isNewGoal) {
@@ -186,13 +324,31 @@ export class DuoWorkflowModel implements LanguageModelV2 {
                 )
 
                 // Use flowConfig to send system prompt via system_template_override.
-                session.setToolsConfig({
-                  mcpTools: [],
-                  flowConfig: buildFlowConfig(sanitizedSystemPrompt),
-                  flowConfigSchemaVersion: "v1",
-                })
+                // The generated flow config overrides the chat agent only; other
+                // definitions run with their server-side configuration unless
+                // the user supplied a flow for this agent.
+                // OpenCode's own tools are registered as MCP tools.
+                const mcpTools = toMcpTools(options.tools)
+                const customFlow = await loadFlowConfig(model.#cwd, model.#flowConfigs, agent)
+                session.setToolsConfig(
+                  customFlow || workflowDefinition === DEFAULT_WORKFLOW_DEFINITION
+                    ? {
+                        mcpTools,
+                        flowConfig: buildFlowConfig(sanitizedSystemPrompt, mcpTools.map((t) => t.name), customFlow),
+                        flowConfigSchemaVersion: "v1",
+                      }
+                    : { mcpTools },
+                )
 
-                extraContext.push(...buildSystemContext())
+                // Built for every start request: the agent may have edited or
+                // committed since the last one.
+                extraContext.push(...await buildSystemContext(model.#cwd, model.#client, {
+                  builtinRules: model.#builtinRules,
+                }))
+                extraContext.push(...attachments.context)
+                if (model.#mergeRequestContext && !model.#replayFile) {
+                  extraContext.push(...await buildMergeRequestContext(model.#client, model.#cwd))
+                }
 
                 const agentReminders = extractAgentReminders(options.prompt)
                 if (agentReminders.length > 0) {
@@ -211,6 +367,9 @@ export class DuoWorkflowModel implements LanguageModelV2 {
                 }
 
                 session.sendStartRequest(goal, extraContext)
+                usage.addInput(goal)
+                usage.addInput(sanitizedSystemPrompt)
+                for (const context of extraContext) usage.addInput(context.content)
               }
               model.#lastSentGoal = goal
             }
@@ -229,13 +388,16 @@ export class DuoWorkflowModel implements LanguageModelV2 {
                   controller.enqueue({ type: "text-start", id: textId })
                 }
                 controller.enqueue({ type: "text-delta", id: textId, delta: event.value })
+                usage.addOutput(event.value)
                 continue
               }
 
               if (event.type === "tool-request") {
                 let mapped: MappedToolCall | MappedToolCall[]
                 try {
-                  mapped = mapDuoToolRequest(event.toolName, event.args)
+                  mapped = event.mcp
+                    ? { toolName: event.toolName, args: event.args }
+                    : mapDuoToolRequest(event.toolName, event.args)
                 } catch {
                   continue
                 }
@@ -259,6 +421,7 @@ export class DuoWorkflowModel implements LanguageModelV2 {
 
                   for (let i = 0; i < mapped.length; i++) {
                     const inputJson = JSON.stringify(mapped[i].args)
+                    usage.addOutput(inputJson)
                     controller.enqueue({ type: "tool-input-start" as const, id: subIds[i], toolName: mapped[i].toolName })
                     controller.enqueue({ type: "tool-input-delta" as const, id: subIds[i], delta: inputJson })
                     controller.enqueue({ type: "tool-input-end" as const, id: subIds[i] })
@@ -272,6 +435,7 @@ export class DuoWorkflowModel implements LanguageModelV2 {
                 } else {
                   model.#pendingToolRequests.set(event.requestId, {})
                   const inputJson = JSON.stringify(mapped.args)
+                  usage.addOutput(inputJson)
                   controller.enqueue({ type: "tool-input-start" as const, id: event.requestId, toolName: mapped.toolName })
                   controller.enqueue({ type: "tool-input-delta" as const, id: event.requestId, delta: inputJson })
                   controller.enqueue({ type: "tool-input-end" as const, id: event.requestId })
@@ -283,19 +447,42 @@ export class DuoWorkflowModel implements LanguageModelV2 {
                   })
                 }
 
+                finish("tool-calls")
+                return
+              }
+
+              if (event.type === "approval-request" || event.type === "action-approval-request") {
+                // Route the approval through OpenCode's permission system
+                // via the plugin's approval tool (it calls ctx.ask).
+                if (hasText) {
+                  controller.enqueue({ type: "text-end", id: textId })
+                }
+
+                const toolCallId = `approval_${randomUUID()}`
+                if (event.type === "approval-request") {
+                  model.#pendingApprovals.set(toolCallId, event.toolName)
+                } else {
+                  model.#pendingActionApprovals.set(toolCallId, event.requestId)
+                }
+                const inputJson = JSON.stringify({ tool: event.toolName, args: JSON.stringify(event.args) })
+                usage.addOutput(inputJson)
+                controller.enqueue({ type: "tool-input-start" as const, id: toolCallId, toolName: APPROVAL_TOOL_NAME })
+                controller.enqueue({ type: "tool-input-delta" as const, id: toolCallId, delta: inputJson })
+                controller.enqueue({ type: "tool-input-end" as const, id: toolCallId })
                 controller.enqueue({
-                  type: "finish",
-                  finishReason: "tool-calls",
-                  usage: UNKNOWN_USAGE,
+                  type: "tool-call",
+                  toolCallId,
+                  toolName: APPROVAL_TOOL_NAME,
+                  input: inputJson,
                 })
-                controller.close()
+
+                finish("tool-calls")
                 return
               }
 
               if (event.type === "error") {
-                controller.enqueue({ type: "error", error: new Error(event.message) })
-                controller.enqueue({ type: "finish", finishReason: "error", usage: UNKNOWN_USAGE })
-                controller.close()
+                controller.enqueue({ type: "error", error: event.error ?? new Error(event.message) })
+                finish("error")
                 return
               }
             }
@@ -304,12 +491,10 @@ export class DuoWorkflowModel implements LanguageModelV2 {
             if (hasText) {
               controller.enqueue({ type: "text-end", id: textId })
             }
-            controller.enqueue({ type: "finish", finishReason: "stop", usage: UNKNOWN_USAGE })
-            controller.close()
+            finish("stop")
           } catch (error) {
             controller.enqueue({ type: "error", error })
-            controller.enqueue({ type: "finish", finishReason: "error", usage: UNKNOWN_USAGE })
-            controller.close()
+            finish("error")
           } finally {
             options.abortSignal?.removeEventListener("abort", onAbort)
           }
@@ -324,23 +509,34 @@ export class DuoWorkflowModel implements LanguageModelV2 {
     }
   }
 
-  /** Remove a cached session, freeing its resources. */
-  disposeSession(sessionID: string): boolean {
-    return sessions.delete(sessionKey(this.#client.instanceUrl, this.modelId, sessionID))
+  /** Remove a cached session, closing its connection and freeing its resources. */
+  disposeSession(sessionID: string, workflowDefinition = this.#workflowDefinition): boolean {
+    const key = sessionKey(this.#client.instanceUrl, this.#dwsModelId, workflowDefinition, sessionID)
+    sessions.get(key)?.reset()
+    return sessions.delete(key)
   }
 
-  #resolveSession(sessionID: string): WorkflowSession {
-    const key = sessionKey(this.#client.instanceUrl, this.modelId, sessionID)
+  #resolveSession(sessionID: string, workflowDefinition: string): WorkflowSession {
+    const key = sessionKey(this.#client.instanceUrl, this.#dwsModelId, workflowDefinition, sessionID)
     const existing = sessions.get(key)
     if (existing) return existing
 
-    const existingWorkflowId = loadWorkflowId(key)
+    // A replay always starts from the recording's first connection.
+    const existingWorkflowId = this.#replayFile ? undefined : loadWorkflowId(key)
 
-    const created = new WorkflowSession(this.#client, this.modelId, this.#cwd, {
+    const created = new WorkflowSession(this.#client, this.#dwsModelId, this.#cwd, {
       existingWorkflowId,
       onWorkflowCreated: (workflowId) => {
         saveWorkflowId(key, workflowId)
       },
+      approvalPolicy: this.#approvalPolicy,
+      httpPolicy: this.#httpPolicy,
+      gitPolicy: this.#gitPolicy,
+      workflowDefinition,
+      recordDir: this.#recordDir,
+      replayFile: this.#replayFile,
+      lenientProtocol: this.#lenientProtocol,
+      actionTimeoutMs: this.#actionTimeoutMs,
     })
     if (this.#toolsConfig) created.setToolsConfig(this.#toolsConfig)
     sessions.set(key, created)
@@ -348,6 +544,24 @@ export class DuoWorkflowModel implements LanguageModelV2 {
   }
 }
 
-function sessionKey(instanceUrl: string, modelId: string, sessionID: string): string {
-  return `${instanceUrl}::${modelId}::${sessionID}`
+/**
+ * Correlates an OpenCode message with the workflow in GitLab's UI
+ * (`providerMetadata.gitlab`).
+ */
+function workflowMetadata(session: WorkflowSession): SharedV2ProviderMetadata {
+  return {
+    [PROVIDER_ID]: {
+      workflowId: session.workflowId ?? null,
+      checkpointStatus: session.checkpointStatus ?? null,
+      requestId: session.requestId ?? null,
+      // Raised during this stream, e.g. actions answered by the timeout.
+      warnings: session.takeWarnings(),
+    },
+  }
+}
+
+function sessionKey(instanceUrl: string, modelId: string, workflowDefinition: string, sessionID: string): string {
+  // "chat" keeps the original key so persisted workflow IDs still resolve.
+  if (workflowDefinition === DEFAULT_WORKFLOW_DEFINITION) return `${instanceUrl}::${modelId}::${sessionID}`
+  return `${instanceUrl}::${modelId}::${workflowDefinition}::${sessionID}`
 }
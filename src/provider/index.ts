@@ -2,6 +2,13 @@ import type { LanguageModelV2, ProviderV2 } from "@ai-sdk/provider"
 import { NoSuchModelError } from "@ai-sdk/provider"
 import { resolveCredentials } from "../gitlab/resolve-credentials"
 import { DuoWorkflowModel } from "./duo-workflow-model"
+import type { TokenEstimator } from "./usage"
+import { parseApprovalPolicy } from "../workflow/approval-policy"
+import { defaultWorkflowDefinition } from "../workflow/definition"
+import { parseFlowConfigSources } from "../workflow/flow-config"
+import { parseGitCommandPolicy } from "../workflow/git-policy"
+import { parseHttpRequestPolicy } from "../workflow/http-policy"
+import { resolveRecordDir, resolveReplayFile } from "../workflow/recording"
 
 type DuoWorkflowProvider = ProviderV2 & {
   agenticChat(modelId: string, options?: unknown): LanguageModelV2
@@ -9,13 +16,27 @@ type DuoWorkflowProvider = ProviderV2 & {
 
 export function createFallbackProvider(input: Record<string, unknown> = {}): DuoWorkflowProvider {
   const client = resolveCredentials(input)
+  const modelOptions = {
+    tokenEstimator: typeof input.tokenEstimator === "function" ? (input.tokenEstimator as TokenEstimator) : undefined,
+    approvalPolicy: parseApprovalPolicy(input),
+    httpPolicy: parseHttpRequestPolicy(input),
+    gitPolicy: parseGitCommandPolicy(input),
+    workflowDefinition: defaultWorkflowDefinition(input),
+    recordDir: resolveRecordDir(input),
+    replayFile: resolveReplayFile(input),
+    mergeRequestContext: input.mergeRequestContext === true,
+    builtinRules: input.builtinRules !== false,
+    flowConfigs: parseFlowConfigSources(input),
+    lenientProtocol: input.protocolMode === "lenient",
+    actionTimeoutMs: typeof input.actionTimeoutMs === "number" && input.actionTimeoutMs > 0 ? input.actionTimeoutMs : undefined,
+  }
 
   return {
     languageModel(modelId: string) {
-      return new DuoWorkflowModel(modelId, client)
+      return new DuoWorkflowModel(modelId, client, undefined, modelOptions)
     },
     agenticChat(modelId: string, _options?: unknown) {
-      return new DuoWorkflowModel(modelId, client)
+      return new DuoWorkflowModel(modelId, client, undefined, modelOptions)
     },
     textEmbeddingModel(modelId: string) {
       throw new NoSuchModelError({ modelId, modelType: "textEmbeddingModel" })
@@ -0,0 +1,34 @@
+import type { LanguageModelV2CallOptions } from "@ai-sdk/provider"
+import { APPROVAL_TOOL_NAME, LIST_DIR_TOOL_NAME } from "../constants"
+import type { McpToolDefinition } from "../workflow/types"
+
+/**
+ * OpenCode tools already covered by a native Duo tool in the flow's toolset
+ * (read_file → read, edit_file → edit, run_command → bash, ...). Registering
+ * them again would only give the agent two names for the same operation.
+ */
+const NATIVE_EQUIVALENTS = new Set(["read", "write", "edit", "glob", "grep", "bash", "list", LIST_DIR_TOOL_NAME, "invalid"])
+
+/**
+ * Tools this plugin registers for OpenCode's own use. The approval tool must
+ * stay out of the agent's reach, or it could approve itself.
+ */
+const CLIENT_ONLY_TOOLS = new Set([APPROVAL_TOOL_NAME])
+
+/**
+ * Convert the AI SDK tools of a call into DWS MCP tool definitions so the
+ * agent can call them natively (via runMCPTool) with their real schemas.
+ */
+export function toMcpTools(tools: LanguageModelV2CallOptions["tools"]): McpToolDefinition[] {
+  const out: McpToolDefinition[] = []
+  for (const tool of tools ?? []) {
+    if (tool.type !== "function") continue
+    if (NATIVE_EQUIVALENTS.has(tool.name) || CLIENT_ONLY_TOOLS.has(tool.name)) continue
+    out.push({
+      name: tool.name,
+      description: tool.description ?? "",
+      inputSchema: JSON.stringify(tool.inputSchema ?? { type: "object", properties: {} }),
+    })
+  }
+  return out
+}
@@ -0,0 +1,78 @@
+import type { GitLabClientOptions } from "../gitlab/client"
+import { type Discussion, type MergeRequest, findOpenMergeRequest, getMergeRequestDiscussions, isUnresolved } from "../gitlab/merge-requests"
+import { detectCurrentBranch, resolveProject } from "../gitlab/project"
+import { truncateOutput } from "../utils/truncate"
+import type { AdditionalContext } from "../workflow/types"
+
+const MAX_DESCRIPTION_CHARS = 4000
+const MAX_DISCUSSIONS = 20
+const MAX_NOTE_CHARS = 300
+
+/**
+ * Context entry describing the open merge request of the checked-out branch
+ * (opt-in via the `mergeRequestContext` provider option). Best effort: any
+ * lookup failure just means no entry.
+ */
+export async function buildMergeRequestContext(client: GitLabClientOptions, cwd: string): Promise<AdditionalContext[]> {
+  try {
+    const [project, branch] = await Promise.all([
+      resolveProject(cwd, client),
+      detectCurrentBranch(cwd),
+    ])
+    if (!project || !branch) return []
+
+    const mr = await findOpenMergeRequest(client, project, branch)
+    if (!mr) return []
+
+    const discussions = await getMergeRequestDiscussions(client, project, mr.iid, { perPage: 100 })
+      .then((page) => page.items.filter(isUnresolved))
+      .catch(() => [])
+
+    return [{
+      category: "merge_request",
+      id: `merge_request_${mr.iid}`,
+      content: renderMergeRequest(mr, discussions.map(summarizeDiscussion)),
+      metadata: JSON.stringify({
+        title: `!${mr.iid} ${mr.title}`,
+        enabled: true,
+        subType: "merge_request",
+      }),
+    }]
+  } catch {
+    return []
+  }
+}
+
+function renderMergeRequest(mr: MergeRequest, discussions: string[]): string {
+  const lines = [
+    "<merge_request>",
+    `!${mr.iid} ${mr.title}${mr.draft ? " (draft)" : ""}`,
+    `URL: ${mr.web_url}`,
+    `Branches: ${mr.source_branch} → ${mr.target_branch}`,
+  ]
+  if (mr.labels?.length) lines.push(`Labels: ${mr.labels.join(", ")}`)
+  lines.push("", "Description:", truncateOutput(mr.description?.trim() || "(no description)", MAX_DESCRIPTION_CHARS))
+
+  if (discussions.length > 0) {
+    lines.push("", `Unresolved discussions (${discussions.length}):`)
+    lines.push(...discussions.slice(0, MAX_DISCUSSIONS))
+    if (discussions.length > MAX_DISCUSSIONS) lines.push(`- ... ${discussions.length - MAX_DISCUSSIONS} more`)
+  }
+
+  lines.push("</merge_request>")
+  return lines.join("\n")
+}
+
+/** `- a.ts:4 @bob: Rename this (2 replies)` */
+function summarizeDiscussion(discussion: Discussion): string {
+  const notes = discussion.notes.filter((note) => !note.system)
+  const first = notes[0] ?? discussion.notes[0]
+  const position = first?.position
+  const line = position?.new_line ?? position?.old_line
+  const location = position ? `${position.new_path ?? position.old_path}${line ? `:${line}` : ""} ` : ""
+  const body = (first?.body ?? "").replace(/\s+/g, " ").trim()
+  const excerpt = body.length > MAX_NOTE_CHARS ? `${body.slice(0, MAX_NOTE_CHARS)}…` : body
+  const replies = notes.length - 1
+  const suffix = replies > 0 ? ` (${replies} ${replies === 1 ? "reply" : "replies"})` : ""
+  return `- ${location}@${first?.author?.username ?? "unknown"}: ${excerpt}${suffix}`
+}
@@ -0,0 +1,67 @@
+import { readFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { runGit } from "../gitlab/project"
+import { truncateOutput } from "../utils/truncate"
+import type { AdditionalContext } from "../workflow/types"
+
+const MAX_RULES_CHARS = 32_000
+
+type RulesFile = {
+  /** Shown to the agent and used as the context ID. */
+  source: string
+  title: string
+  file: string
+}
+
+/**
+ * Rules files sent as `user_rule` context, lowest precedence first: the
+ * user's own rules, then the project's `AGENTS.md`, then the Duo-specific
+ * `.gitlab/duo/chat-rules.md`. Each entry says which earlier sources it
+ * overrides; the built-in rules rank below all of them.
+ */
+export async function loadRules(cwd: string, builtin: string | undefined): Promise<AdditionalContext[]> {
+  const root = await runGit(cwd, ["rev-parse", "--show-toplevel"]) ?? cwd
+  const candidates: RulesFile[] = [
+    { source: "~/.config/opencode/duo-rules.md", title: "User Rules", file: path.join(configDir(), "duo-rules.md") },
+    { source: "AGENTS.md", title: "Project Rules (AGENTS.md)", file: path.join(root, "AGENTS.md") },
+    { source: ".gitlab/duo/chat-rules.md", title: "Project Rules (.gitlab/duo/chat-rules.md)", file: path.join(root, ".gitlab", "duo", "chat-rules.md") },
+  ]
+
+  const contents = await Promise.all(candidates.map((c) => readFile(c.file, "utf8").then((text) => text.trim(), () => "")))
+  const context: AdditionalContext[] = []
+  const overridden = builtin ? ["the system rules"] : []
+
+  if (builtin) context.push(ruleContext("user_rules", "System Rules", builtin))
+
+  candidates.forEach((candidate, i) => {
+    if (!contents[i]) return
+    const preamble = overridden.length > 0
+      ? `Rules from ${candidate.source}. Where they conflict, they take precedence over ${overridden.join(" and ")}.`
+      : `Rules from ${candidate.source}.`
+    const body = truncateOutput(contents[i], MAX_RULES_CHARS)
+    context.push(ruleContext(`user_rules:${candidate.source}`, candidate.title, `${preamble}\n\n${body}`))
+    overridden.push(candidate.source)
+  })
+
+  return context
+}
+
+function ruleContext(id: string, title: string, content: string): AdditionalContext {
+  return {
+    category: "user_rule",
+    content,
+    id,
+    metadata: JSON.stringify({
+      title,
+      enabled: true,
+      subType: "user_rule",
+    }),
+  }
+}
+
+function configDir(): string {
+  return process.env.XDG_CONFIG_HOME?.trim()
+    ? path.join(process.env.XDG_CONFIG_HOME, "opencode")
+    : path.join(os.homedir(), ".config", "opencode")
+}
@@ -1,5 +1,6 @@
 import type { LanguageModelV2CallOptions } from "@ai-sdk/provider"
 import { PROVIDER_ID } from "../constants"
+import { readDefinition } from "../workflow/definition"
 
 /**
  * Read the workflow session ID from the call options.
@@ -22,6 +23,19 @@ export function readSessionID(options: LanguageModelV2CallOptions): string | und
   return undefined
 }
 
+/**
+ * Read a per-call workflow definition override
+ * (`providerOptions.gitlab.workflowDefinition`, set from `chat.params`).
+ */
+export function readWorkflowDefinition(options: LanguageModelV2CallOptions): string | undefined {
+  return readDefinition(readProviderBlock(options)?.workflowDefinition)
+}
+
+/** OpenCode agent of the call (`providerOptions.gitlab.agent`, set from `chat.params`). */
+export function readAgentName(options: LanguageModelV2CallOptions): string | undefined {
+  return readDefinition(readProviderBlock(options)?.agent)
+}
+
 function readProviderBlock(options: LanguageModelV2CallOptions): Record<string, unknown> | undefined {
   const block = options.providerOptions?.[PROVIDER_ID]
   if (block && typeof block === "object" && !Array.isArray(block)) {
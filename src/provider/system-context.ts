@@ -1,13 +1,31 @@
 import os from "node:os"
+import type { GitLabClientOptions } from "../gitlab/client"
+import { resolveProject, runGit } from "../gitlab/project"
+import { truncateOutput } from "../utils/truncate"
+import { loadRules } from "./rules"
 import type { AdditionalContext } from "../workflow/types"
 
+const MAX_STATUS_LINES = 30
+const MAX_COMMITS = 10
+const MAX_REPOSITORY_CHARS = 4000
+
 /**
  * Build system context items sent with every startRequest.
- * Includes OS information and tool orchestration rules.
+ * Includes OS information, the state of the git worktree at `cwd`, the
+ * built-in tool orchestration rules (unless `builtinRules` is false) and the
+ * user's and project's rules files.
  */
-export function buildSystemContext(): AdditionalContext[] {
+export async function buildSystemContext(
+  cwd: string,
+  client: Pick<GitLabClientOptions, "instanceUrl" | "project">,
+  options: { builtinRules?: boolean } = {},
+): Promise<AdditionalContext[]> {
   const platform = os.platform()
   const arch = os.arch()
+  const [repository, rules] = await Promise.all([
+    buildRepositoryContent(cwd, client),
+    loadRules(cwd, options.builtinRules === false ? undefined : SYSTEM_RULES),
+  ])
 
   return [
     {
@@ -20,17 +38,90 @@ export function buildSystemContext(): AdditionalContext[] {
         subType: "os",
       }),
     },
-    {
-      category: "user_rule",
-      content: SYSTEM_RULES,
-      id: "user_rules",
+    ...(repository ? [{
+      category: "repository",
+      content: repository,
+      id: "repository",
       metadata: JSON.stringify({
-        title: "System Rules",
+        title: "Repository",
         enabled: true,
-        subType: "user_rule",
+        subType: "repository",
       }),
-    },
+    }] : []),
+    ...rules,
+  ]
+}
+
+/**
+ * Branch, upstream, working tree changes and recent commits, so the agent
+ * does not have to run git to find out. Undefined outside a git repository.
+ */
+async function buildRepositoryContent(
+  cwd: string,
+  client: Pick<GitLabClientOptions, "instanceUrl" | "project">,
+): Promise<string | undefined> {
+  const [status, log, project] = await Promise.all([
+    runGit(cwd, ["status", "--porcelain", "--branch"]),
+    runGit(cwd, ["log", `-${MAX_COMMITS}`, "--format=%h %s"]),
+    resolveProject(cwd, client),
+  ])
+  if (!status) return undefined
+
+  const [header, ...changes] = status.split("\n")
+  const lines = ["<repository>"]
+  if (project) lines.push(`GitLab project: ${project}`)
+  lines.push(`Branch: ${describeBranch(header)}`)
+
+  if (changes.length === 0) {
+    lines.push("Working tree: clean")
+  } else {
+    lines.push(`Working tree: ${summarizeChanges(changes)}`)
+    lines.push(...changes.slice(0, MAX_STATUS_LINES))
+    if (changes.length > MAX_STATUS_LINES) lines.push(`... ${changes.length - MAX_STATUS_LINES} more`)
+  }
+
+  if (log) lines.push("Recent commits:", ...log.split("\n"))
+  lines.push("</repository>")
+  return truncateOutput(lines.join("\n"), MAX_REPOSITORY_CHARS)
+}
+
+/** `## main...origin/main [ahead 1, behind 2]` → `main (upstream origin/main, ahead 1, behind 2)` */
+function describeBranch(header: string): string {
+  const line = header.replace(/^## /, "")
+  if (line.startsWith("HEAD (no branch)")) return "detached HEAD"
+
+  const unborn = /^No commits yet on (.+)$/.exec(line)
+  if (unborn) return `${unborn[1]} (no commits yet)`
+
+  const match = /^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/.exec(line)
+  if (!match) return line
+  const [, branch, upstream, tracking] = match
+  if (!upstream) return `${branch} (no upstream)`
+  return `${branch} (upstream ${upstream}${tracking ? `, ${tracking}` : ", up to date"})`
+}
+
+function summarizeChanges(changes: string[]): string {
+  let staged = 0
+  let modified = 0
+  let untracked = 0
+  let conflicted = 0
+  for (const change of changes) {
+    const [x, y] = change
+    if (x === "?") untracked++
+    else if (x === "U" || y === "U" || (x === "A" && y === "A") || (x === "D" && y === "D")) conflicted++
+    else {
+      if (x !== " ") staged++
+      if (y !== " ") modified++
+    }
+  }
+
+  const parts = [
+    staged && `${staged} staged`,
+    modified && `${modified} modified`,
+    untracked && `${untracked} untracked`,
+    conflicted && `${conflicted} conflicted`,
   ]
+  return parts.filter(Boolean).join(", ")
 }
 
 const SYSTEM_RULES = `<system-reminder>
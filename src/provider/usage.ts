@@ -0,0 +1,47 @@
+import type { LanguageModelV2Usage } from "@ai-sdk/provider"
+
+/** Estimates how many tokens a piece of text costs. */
+export type TokenEstimator = (text: string) => number
+
+/** Rough heuristic (~4 characters per token) used when no estimator is supplied. */
+export const estimateTokens: TokenEstimator = (text) => Math.ceil(text.length / 4)
+
+/**
+ * Accumulates estimated token usage for a single turn.
+ *
+ * DWS does not report usage, so input is estimated from everything sent
+ * (goal, additional context, tool results) and output from everything
+ * streamed back (checkpoint text, tool call arguments).
+ */
+export class TurnUsage {
+  #estimate: TokenEstimator
+  #input: string[] = []
+  #output: string[] = []
+
+  constructor(estimate: TokenEstimator = estimateTokens) {
+    this.#estimate = estimate
+  }
+
+  addInput(text: string | undefined): void {
+    if (text) this.#input.push(text)
+  }
+
+  addOutput(text: string | undefined): void {
+    if (text) this.#output.push(text)
+  }
+
+  toUsage(): LanguageModelV2Usage {
+    const inputTokens = this.#count(this.#input)
+    const outputTokens = this.#count(this.#output)
+    return {
+      inputTokens,
+      outputTokens,
+      totalTokens: inputTokens + outputTokens,
+    }
+  }
+
+  #count(parts: string[]): number {
+    if (parts.length === 0) return 0
+    return Math.max(0, Math.round(this.#estimate(parts.join("\n"))))
+  }
+}
@@ -0,0 +1,20 @@
+const ANSI_RE = /\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g
+
+/** GitLab's collapsible-section markers, e.g. `section_start:1700000000:step_script[collapsed=true]`. */
+const SECTION_RE = /section_(?:start|end):\d+:[\w.-]+(?:\[[^\]]*\])?/g
+
+/**
+ * Turn a raw CI job trace into plain text: drop colour codes and section
+ * markers, and keep only the final state of lines redrawn with `\r`.
+ */
+export function cleanJobTrace(trace: string): string {
+  return trace
+    .replace(ANSI_RE, "")
+    .replace(SECTION_RE, "")
+    .split("\n")
+    .map((line) => {
+      const parts = line.replace(/\r+$/, "").split("\r")
+      return parts[parts.length - 1]
+    })
+    .join("\n")
+}
@@ -0,0 +1,22 @@
+export type BackoffPolicy = {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+/**
+ * Exponential backoff with "equal jitter": the delay doubles per attempt
+ * (capped at `maxDelayMs`) and a random half of it is shaved off so that
+ * many clients dropped at once don't reconnect in lockstep.
+ *
+ * `attempt` is 1-based.
+ */
+export function backoffDelay(attempt: number, policy: BackoffPolicy): number {
+  const exponential = policy.baseDelayMs * 2 ** Math.max(0, attempt - 1)
+  const capped = Math.min(policy.maxDelayMs, exponential)
+  return Math.round(capped / 2 + Math.random() * (capped / 2))
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
@@ -0,0 +1,22 @@
+/**
+ * Cap tool output so a single call can't flood the agent's context.
+ * Keeps the head of the text and says how much was cut.
+ */
+export function truncateOutput(text: string, limit: number): string {
+  if (text.length <= limit) return text
+  return `${text.slice(0, limit)}\n\n[truncated ${text.length - limit} characters]`
+}
+
+/**
+ * Keep the last `lines` lines (and at most `limit` characters) of a log,
+ * where the failure usually is. Says how much was cut.
+ */
+export function tailLines(text: string, lines: number, limit: number): string {
+  const all = text.replace(/\n+$/, "").split("\n")
+  let kept = all.slice(-lines).join("\n")
+  const cut = all.length > lines || kept.length > limit
+  if (kept.length > limit) kept = kept.slice(kept.length - limit)
+
+  if (!cut) return kept
+  return `[showing the last ${kept.split("\n").length} of ${all.length} lines]\n${kept}`
+}
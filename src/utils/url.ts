@@ -10,14 +10,25 @@ export function envInstanceUrl(): string | undefined {
   return process.env.GITLAB_INSTANCE_URL ?? process.env.GITLAB_URL ?? process.env.GITLAB_BASE_URL
 }
 
+/**
+ * `protocol//host` plus the relative URL root of instances served under a
+ * path (`https://corp.example.com/gitlab`), without a trailing slash, query
+ * or fragment.
+ */
 export function normalizeInstanceUrl(value: unknown): string {
   const raw = text(value) ?? DEFAULT_INSTANCE_URL
   const withProtocol = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`
 
   try {
     const url = new URL(withProtocol)
-    return `${url.protocol}//${url.host}`
+    return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, "")}`
   } catch {
     return DEFAULT_INSTANCE_URL
   }
 }
+
+/** Absolute URL of `path` (e.g. `api/v4/user`) under the instance's base path. */
+export function instanceEndpoint(instanceUrl: string, path: string): URL {
+  const base = new URL(instanceUrl.endsWith("/") ? instanceUrl : `${instanceUrl}/`)
+  return new URL(path.replace(/^\/+/, ""), base)
+}
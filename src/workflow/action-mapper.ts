@@ -13,6 +13,8 @@ type MappedToolRequest = {
   requestId: string
   toolName: string
   args: Record<string, unknown>
+  /** Call to an OpenCode tool registered as MCP tool: name and args are already native. */
+  mcp?: boolean
 }
 
 /**
@@ -34,7 +36,7 @@ export function mapActionToToolRequest(action: WorkflowToolAction): MappedToolRe
     } else {
       parsedArgs = {}
     }
-    return { requestId, toolName: action.runMCPTool.name, args: parsedArgs }
+    return { requestId, toolName: action.runMCPTool.name, args: parsedArgs, mcp: true }
   }
 
   if (action.runReadFile) {
@@ -131,29 +133,5 @@ export function mapActionToToolRequest(action: WorkflowToolAction): MappedToolRe
     }
   }
 
-  if (action.runGitCommand) {
-    return {
-      requestId,
-      toolName: "run_git_command",
-      args: {
-        repository_url: action.runGitCommand.repository_url ?? "",
-        command: action.runGitCommand.command,
-        args: action.runGitCommand.arguments,
-      },
-    }
-  }
-
-  if (action.runHTTPRequest) {
-    return {
-      requestId,
-      toolName: "gitlab_api_request",
-      args: {
-        method: action.runHTTPRequest.method,
-        path: action.runHTTPRequest.path,
-        body: action.runHTTPRequest.body,
-      },
-    }
-  }
-
   return null
 }
@@ -0,0 +1,77 @@
+import type { StartWorkflowRequest, ToolInfo } from "./types"
+
+type ApprovalMode = "auto" | "deny-list" | "ask"
+
+/**
+ * How TOOL_CALL_APPROVAL_REQUIRED is answered:
+ *   - `auto`: approve everything (default)
+ *   - `deny-list`: reject tools in `deniedTools`, approve the rest
+ *   - `ask`: reject tools in `deniedTools`, ask the user for the rest
+ */
+export type ApprovalPolicy = {
+  mode: ApprovalMode
+  deniedTools: string[]
+}
+
+type ApprovalDecision =
+  | { type: "respond"; approval: NonNullable<StartWorkflowRequest["approval"]> }
+  | { type: "ask" }
+
+const APPROVAL_MODES = new Set<ApprovalMode>(["auto", "deny-list", "ask"])
+
+/**
+ * Read the policy from provider options (`approvalPolicy`, `deniedTools`).
+ * Unknown modes fall back to `auto` so a typo never blocks every tool.
+ */
+export function parseApprovalPolicy(options: Record<string, unknown>): ApprovalPolicy {
+  const mode = typeof options.approvalPolicy === "string" && APPROVAL_MODES.has(options.approvalPolicy as ApprovalMode)
+    ? (options.approvalPolicy as ApprovalMode)
+    : "auto"
+  const deniedTools = Array.isArray(options.deniedTools)
+    ? options.deniedTools.filter((t): t is string => typeof t === "string" && t.trim().length > 0).map((t) => t.trim())
+    : []
+
+  return { mode, deniedTools }
+}
+
+export function approvalAccepted(): NonNullable<StartWorkflowRequest["approval"]> {
+  return { approval: {} }
+}
+
+export function approvalRejected(message: string): NonNullable<StartWorkflowRequest["approval"]> {
+  return { rejection: { message } }
+}
+
+/**
+ * Decide how to answer a tool approval request. `tool` is the pending call
+ * read from the checkpoint; it may be missing on older DWS versions, in which
+ * case only `auto` and `ask` can act on it.
+ */
+export function decideApproval(policy: ApprovalPolicy, tool: ToolInfo | undefined): ApprovalDecision {
+  if (policy.mode === "auto") return { type: "respond", approval: approvalAccepted() }
+
+  if (tool && isDenied(policy.deniedTools, tool.name)) {
+    return { type: "respond", approval: approvalRejected(`${tool.name} is disabled by client policy`) }
+  }
+
+  if (policy.mode === "ask") return { type: "ask" }
+  return { type: "respond", approval: approvalAccepted() }
+}
+
+/**
+ * MCP tools DWS may run without asking: all of them under `auto`, those not
+ * denied under `deny-list`, none under `ask`. Anything left out comes back
+ * as TOOL_CALL_APPROVAL_REQUIRED, where `decideApproval` applies the policy.
+ */
+export function preapprovedTools(policy: ApprovalPolicy, names: string[]): string[] {
+  if (policy.mode === "auto") return names
+  if (policy.mode === "ask") return []
+  return names.filter((name) => !isDenied(policy.deniedTools, name))
+}
+
+/** Entries match exactly, or as a prefix when they end with `*`. */
+function isDenied(deniedTools: string[], name: string): boolean {
+  return deniedTools.some((entry) =>
+    entry.endsWith("*") ? name.startsWith(entry.slice(0, -1)) : entry === name,
+  )
+}
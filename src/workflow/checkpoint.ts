@@ -1,18 +1,31 @@
-import type { UiChatLogEntry, WorkflowCheckpointPayload } from "./types"
+import type { PlanStep, ToolInfo, UiChatLogEntry, WorkflowCheckpointPayload } from "./types"
 
 export type CheckpointState = {
   uiChatLog: UiChatLogEntry[]
+  /**
+   * Set after a reconnect: the next checkpoint may lag behind what was
+   * already streamed, so agent entries that are a prefix of the known
+   * content are treated as already emitted instead of as rewrites.
+   */
+  resyncing: boolean
 }
 
 export function createCheckpointState(): CheckpointState {
   return {
     uiChatLog: [],
+    resyncing: false,
   }
 }
 
+/** Re-sync from the next checkpoint without re-emitting text already streamed. */
+export function markCheckpointResync(state: CheckpointState): void {
+  state.resyncing = true
+}
+
 export function extractAgentTextDeltas(checkpoint: string, state: CheckpointState): string[] {
   const next = parseCheckpoint(checkpoint)
   const out: string[] = []
+  const resyncing = state.resyncing
 
   for (let i = 0; i < next.length; i++) {
     const item = next[i]
@@ -26,6 +39,12 @@ export function extractAgentTextDeltas(checkpoint: string, state: CheckpointStat
 
     if (item.content === previous.content) continue
 
+    if (resyncing && previous.content.startsWith(item.content)) {
+      // Stale replay after reconnect -- keep the longer, already-emitted text.
+      next[i] = previous
+      continue
+    }
+
     if (item.content.startsWith(previous.content)) {
       const delta = item.content.slice(previous.content.length)
       if (delta) out.push(delta)
@@ -35,24 +54,60 @@ export function extractAgentTextDeltas(checkpoint: string, state: CheckpointStat
     if (item.content) out.push(item.content)
   }
 
+  if (resyncing) {
+    // Entries the lagging checkpoint doesn't know about yet were already streamed.
+    next.push(...state.uiChatLog.slice(next.length))
+  }
+
   state.uiChatLog = next
+  state.resyncing = false
   return out
 }
 
+/**
+ * The tool call DWS is waiting on, i.e. the latest `request` entry of the
+ * last checkpoint. Used to apply the approval policy before the tool runs.
+ */
+export function pendingToolCall(state: CheckpointState): ToolInfo | undefined {
+  for (let i = state.uiChatLog.length - 1; i >= 0; i--) {
+    const item = state.uiChatLog[i]
+    if (item.message_type !== "request") continue
+    return item.tool_info ?? undefined
+  }
+  return undefined
+}
+
+/** Plan steps drafted by the agent (`channel_values.plan`), if any. */
+export function extractPlan(checkpoint: string): PlanStep[] {
+  const steps = readPayload(checkpoint)?.channel_values?.plan?.steps
+  if (!Array.isArray(steps)) return []
+
+  return steps.filter(isPlanStep)
+}
+
 function parseCheckpoint(raw: string): UiChatLogEntry[] {
-  if (!raw) return []
+  const log = readPayload(raw)?.channel_values?.ui_chat_log
+  if (!Array.isArray(log)) return []
 
-  try {
-    const parsed = JSON.parse(raw) as WorkflowCheckpointPayload
-    const log = parsed.channel_values?.ui_chat_log
-    if (!Array.isArray(log)) return []
+  return log.filter(isUiChatLogEntry)
+}
+
+function readPayload(raw: string): WorkflowCheckpointPayload | undefined {
+  if (!raw) return undefined
 
-    return log.filter(isUiChatLogEntry)
+  try {
+    return JSON.parse(raw) as WorkflowCheckpointPayload
   } catch {
-    return []
+    return undefined
   }
 }
 
+function isPlanStep(value: unknown): value is PlanStep {
+  if (!value || typeof value !== "object") return false
+  const item = value as Record<string, unknown>
+  return typeof item.description === "string" && item.description.trim().length > 0
+}
+
 function isUiChatLogEntry(value: unknown): value is UiChatLogEntry {
   if (!value || typeof value !== "object") return false
   const item = value as Record<string, unknown>
@@ -0,0 +1,50 @@
+import { DEFAULT_WORKFLOW_DEFINITION } from "../constants"
+
+/**
+ * Workflow definitions other than "chat" are exposed as separate model
+ * entries named `<model>@<definition>` (e.g. `duo-chat-sonnet-4-5@software_development`).
+ */
+const DEFINITION_SEPARATOR = "@"
+
+export function splitModelId(id: string): { modelId: string; workflowDefinition: string | undefined } {
+  const index = id.lastIndexOf(DEFINITION_SEPARATOR)
+  if (index <= 0 || index === id.length - 1) return { modelId: id, workflowDefinition: undefined }
+  return { modelId: id.slice(0, index), workflowDefinition: id.slice(index + 1) }
+}
+
+export function definitionModelId(modelId: string, workflowDefinition: string): string {
+  if (workflowDefinition === DEFAULT_WORKFLOW_DEFINITION) return modelId
+  return `${modelId}${DEFINITION_SEPARATOR}${workflowDefinition}`
+}
+
+/** Default definition from provider options (`workflowDefinition`), else "chat". */
+export function defaultWorkflowDefinition(options: Record<string, unknown>): string {
+  return readDefinition(options.workflowDefinition) ?? DEFAULT_WORKFLOW_DEFINITION
+}
+
+/** Extra definitions to expose as model entries (`workflowDefinitions` provider option). */
+export function listWorkflowDefinitions(options: Record<string, unknown>): string[] {
+  const configured = Array.isArray(options.workflowDefinitions) ? options.workflowDefinitions : []
+  const definitions = new Set<string>()
+  for (const value of configured) {
+    const definition = readDefinition(value)
+    if (definition && definition !== DEFAULT_WORKFLOW_DEFINITION) definitions.add(definition)
+  }
+  return [...definitions]
+}
+
+/**
+ * Per-agent definition from the `agentWorkflowDefinitions` provider option,
+ * e.g. `{ "plan": "software_development" }`.
+ */
+export function agentWorkflowDefinition(options: Record<string, unknown>, agent: string): string | undefined {
+  const mapping = options.agentWorkflowDefinitions
+  if (!mapping || typeof mapping !== "object" || Array.isArray(mapping)) return undefined
+  return readDefinition((mapping as Record<string, unknown>)[agent])
+}
+
+export function readDefinition(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : undefined
+}
@@ -1,7 +1,18 @@
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { load as loadYaml } from "js-yaml"
+import { z } from "zod"
+import { runGit } from "../gitlab/project"
+
 /**
  * Builds a chat-partial V1 flow config that:
- * 1) overrides server tool discovery with a strict allowlist
+ * 1) overrides server tool discovery with a strict allowlist, extended with
+ *    the OpenCode tools registered as MCP tools
  * 2) overrides system_static prompt content with the provided prompt string
+ *
+ * A user-supplied flow (see `loadFlowConfig`) replaces the generated one; its
+ * prompts without a system template get the provided prompt, and its agent
+ * components without a toolset get the generated one.
  */
 const TOOL_ALLOWLIST = [
   "read_file",
@@ -15,76 +26,107 @@ const TOOL_ALLOWLIST = [
   "run_command",
 ] as const
 
-const BRIDGE_WHEN_TO_USE = [
-  "Bridge tools — when to use:",
-  "",
-  "Todo (__todo_read__, __todo_write__):",
-  "- Use for planning and tracking when the task has 3+ steps, multiple files, or multiple user requirements.",
-  "- Keep exactly one todo in_progress at a time.",
-  "- Mark tasks completed immediately after finishing each step.",
-  "- Update the todo list when scope changes or new requirements appear.",
-  "- Skip for trivial one-step requests.",
-  "",
-  "Web fetch (__webfetch__):",
-  "- Use only when external URL content is needed and repo/local context is insufficient.",
-  "- Prefer targeted URLs and the minimum needed format.",
-  "- Do not use for local files or codebase exploration.",
-  "",
-  "Question (__question__):",
-  "- Use only when blocked by missing user input that materially changes the implementation.",
-  "- Complete all non-blocked work first, then ask.",
-  "- Ask exactly one targeted question unless multiple answers are strictly required together.",
-  "- If a safe low-risk default exists, proceed without asking and state the assumption.",
-  "- Must ask for: credentials/secrets, destructive/irreversible actions, production/billing/security impact, ambiguity where different answers produce different implementations.",
-  "- Do not ask for: permission-style prompts (\"Should I proceed?\"), trivial preferences, questions answerable from repo/docs/context.",
-  "",
-  "Skill (__skill__):",
-  "- Use when the task clearly matches an available skill and specialized instructions are needed.",
-  "- Load the matching skill once, then follow its workflow.",
-  "- Do not use if no available skill clearly matches.",
-].join("\n")
-
-const BRIDGE_HOW_TO_USE = [
-  "Bridge tools — how to use:",
-  "",
-  "All bridge tools are called via run_command with a single command string.",
-  "",
-  "Read todos:",
-  "  __todo_read__",
-  "Write/update todos:",
-  "  __todo_write__ {\"todos\":[{\"content\":\"...\",\"status\":\"pending|in_progress|completed|cancelled\",\"priority\":\"high|medium|low\"}]}",
-  "Fetch web content:",
-  "  __webfetch__ {\"url\":\"https://example.com\",\"format\":\"markdown\",\"timeout\":30}",
-  "Ask user question(s):",
-  "  __question__ {\"questions\":[{\"question\":\"...\",\"header\":\"...\",\"options\":[{\"label\":\"Option A\",\"description\":\"...\"}],\"multiple\":false}]}",
-  "Load a skill:",
-  "  __skill__ {\"name\":\"skill-name\"}",
-].join("\n")
-
-const BRIDGE_FORMATTING_RULES = [
-  "Bridge tools — formatting and validation:",
-  "",
-  "Payloads:",
-  "- Use strict JSON with double quotes in all payloads.",
-  "- If validation fails, correct the JSON and retry.",
-  "- Do not use regular shell commands for bridge operations.",
-  "",
-  "Question formatting:",
-  "- Provide 2-5 concrete options.",
-  "- Labels: 1-5 words, concise.",
-  "- Header: max 30 chars.",
-  "- Put recommended option first; append \"(Recommended)\" to its label.",
-  "- Set multiple=true only when selecting more than one is valid.",
-  "- Custom free-text is enabled by default; do not add generic \"Other\" options.",
-].join("\n")
-
-export function buildFlowConfig(systemPrompt: string): Record<string, unknown> {
-  const bridgedPrompt = [
-    systemPrompt.trim(),
-    BRIDGE_WHEN_TO_USE,
-    BRIDGE_HOW_TO_USE,
-    BRIDGE_FORMATTING_RULES,
-  ].filter(Boolean).join("\n\n")
+/** Component types that run a prompt and therefore need a `prompt_id`. */
+const PROMPT_COMPONENT_TYPES = new Set(["AgentComponent", "OneOffComponent"])
+
+const FLOW_FILE_EXTENSIONS = [".yml", ".yaml", ".json"]
+
+const ComponentSchema = z.object({
+  name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "must be an identifier"),
+  type: z.string().min(1),
+  prompt_id: z.string().min(1).optional(),
+  toolset: z.array(z.string().min(1)).optional(),
+}).passthrough()
+
+const PromptSchema = z.object({
+  prompt_id: z.string().min(1),
+  name: z.string().optional(),
+  unit_primitives: z.array(z.string()).optional(),
+  prompt_template: z.object({
+    system: z.string().optional(),
+    user: z.string().optional(),
+  }).passthrough().default({}),
+}).passthrough()
+
+const RouterSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1).optional(),
+  condition: z.object({
+    input: z.string(),
+    routes: z.record(z.string()),
+  }).passthrough().optional(),
+}).passthrough()
+
+const FlowConfigSchema = z.object({
+  version: z.literal("v1"),
+  environment: z.string().min(1),
+  components: z.array(ComponentSchema).min(1),
+  prompts: z.array(PromptSchema).optional(),
+  routers: z.array(RouterSchema).optional(),
+  flow: z.object({ entry_point: z.string().min(1) }).passthrough().optional(),
+}).passthrough().superRefine((config, ctx) => {
+  const names = new Set<string>()
+  config.components.forEach((component, i) => {
+    if (names.has(component.name)) {
+      ctx.addIssue({ code: "custom", path: ["components", i, "name"], message: `duplicate component "${component.name}"` })
+    }
+    names.add(component.name)
+    if (PROMPT_COMPONENT_TYPES.has(component.type) && !component.prompt_id) {
+      ctx.addIssue({ code: "custom", path: ["components", i, "prompt_id"], message: `required for ${component.type}` })
+    }
+  })
+
+  const known = (name: string) => names.has(name) || name === "end"
+  config.routers?.forEach((router, i) => {
+    if (!names.has(router.from)) {
+      ctx.addIssue({ code: "custom", path: ["routers", i, "from"], message: `unknown component "${router.from}"` })
+    }
+    const targets = [router.to, ...Object.values(router.condition?.routes ?? {})]
+    for (const target of targets) {
+      if (target && !known(target)) {
+        ctx.addIssue({ code: "custom", path: ["routers", i], message: `unknown component "${target}"` })
+      }
+    }
+    if (!router.to && !router.condition) {
+      ctx.addIssue({ code: "custom", path: ["routers", i], message: "needs `to` or `condition`" })
+    }
+  })
+
+  if (config.flow && !names.has(config.flow.entry_point)) {
+    ctx.addIssue({ code: "custom", path: ["flow", "entry_point"], message: `unknown component "${config.flow.entry_point}"` })
+  }
+  if (config.components.length > 1 && !config.flow) {
+    ctx.addIssue({ code: "custom", path: ["flow"], message: "multi-component flows need a `flow.entry_point`" })
+  }
+})
+
+type FlowConfig = z.infer<typeof FlowConfigSchema>
+
+/** Inline flow configs or paths to YAML/JSON files, from provider options. */
+export type FlowConfigSources = {
+  default: unknown
+  agents: Record<string, unknown>
+}
+
+export function buildFlowConfig(
+  systemPrompt: string,
+  mcpToolNames: string[] = [],
+  custom?: FlowConfig,
+): Record<string, unknown> {
+  const toolset = [...TOOL_ALLOWLIST, ...mcpToolNames]
+  if (custom) {
+    return {
+      ...custom,
+      components: custom.components.map((component) =>
+        component.type === "AgentComponent" && !component.toolset ? { ...component, toolset } : component,
+      ),
+      prompts: custom.prompts?.map((prompt) =>
+        prompt.prompt_template.system === undefined
+          ? { ...prompt, prompt_template: { ...prompt.prompt_template, system: systemPrompt.trim() } }
+          : prompt,
+      ),
+    }
+  }
 
   return {
     version: "v1",
@@ -95,7 +137,7 @@ export function buildFlowConfig(systemPrompt: string): Record<string, unknown> {
         name: "chat",
         type: "AgentComponent",
         prompt_id: "chat/agent",
-        toolset: [...TOOL_ALLOWLIST],
+        toolset,
       },
     ],
     prompts: [
@@ -104,9 +146,90 @@ export function buildFlowConfig(systemPrompt: string): Record<string, unknown> {
         prompt_id: "chat/agent",
         unit_primitives: ["duo_chat"],
         prompt_template: {
-          system: bridgedPrompt,
+          system: systemPrompt.trim(),
         },
       },
     ],
   }
 }
+
+/**
+ * Read `flowConfig` (inline object or file path) and `agentFlowConfigs`
+ * (OpenCode agent name → inline object or file path) from provider options.
+ */
+export function parseFlowConfigSources(options: Record<string, unknown>): FlowConfigSources {
+  const agents = options.agentFlowConfigs
+  return {
+    default: options.flowConfig,
+    agents: agents && typeof agents === "object" && !Array.isArray(agents) ? agents as Record<string, unknown> : {},
+  }
+}
+
+/**
+ * The user-supplied flow for `agent`, most specific first: the agent's
+ * provider option, `.gitlab/duo/flows/<agent>.{yml,yaml,json}`, the
+ * `flowConfig` provider option, then `.gitlab/duo/flow.{yml,yaml,json}`.
+ * Relative paths resolve against the repository root. Undefined when none
+ * is configured; throws when the selected one is invalid.
+ */
+export async function loadFlowConfig(
+  cwd: string,
+  sources: FlowConfigSources | undefined,
+  agent: string | undefined,
+): Promise<FlowConfig | undefined> {
+  const root = await runGit(cwd, ["rev-parse", "--show-toplevel"]) ?? cwd
+  const projectDir = path.join(root, ".gitlab", "duo")
+
+  // Own keys only, so an agent named like an Object.prototype member gets no flow from it.
+  const agentSource = agent && sources && Object.hasOwn(sources.agents, agent) ? sources.agents[agent] : undefined
+  if (agentSource !== undefined) return resolveFlowConfig(root, agentSource, `agentFlowConfigs.${agent}`)
+  if (agent && /^[\w-]+$/.test(agent)) {
+    const file = await readFlowFile(path.join(projectDir, "flows", agent))
+    if (file) return parseFlowConfig(file.content, file.path)
+  }
+
+  if (sources?.default !== undefined) return resolveFlowConfig(root, sources.default, "flowConfig")
+  const file = await readFlowFile(path.join(projectDir, "flow"))
+  return file ? parseFlowConfig(file.content, file.path) : undefined
+}
+
+async function resolveFlowConfig(root: string, source: unknown, label: string): Promise<FlowConfig> {
+  if (typeof source !== "string") return validateFlowConfig(source, label)
+
+  const file = path.resolve(root, source)
+  const content = await readFile(file, "utf8").catch((error: unknown) => {
+    throw new Error(`Cannot read flow config ${file} (${label}): ${error instanceof Error ? error.message : String(error)}`)
+  })
+  return parseFlowConfig(content, file)
+}
+
+/** `<base>.yml`, `<base>.yaml` or `<base>.json`, whichever exists first. */
+async function readFlowFile(base: string): Promise<{ path: string; content: string } | undefined> {
+  for (const extension of FLOW_FILE_EXTENSIONS) {
+    const file = base + extension
+    const content = await readFile(file, "utf8").catch(() => undefined)
+    if (content !== undefined) return { path: file, content }
+  }
+  return undefined
+}
+
+function parseFlowConfig(content: string, file: string): FlowConfig {
+  let value: unknown
+  try {
+    value = file.endsWith(".json") ? JSON.parse(content) : loadYaml(content)
+  } catch (error) {
+    throw new Error(`Cannot parse flow config ${file}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  return validateFlowConfig(value, file)
+}
+
+function validateFlowConfig(value: unknown, source: string): FlowConfig {
+  const result = FlowConfigSchema.safeParse(value)
+  if (result.success) return result.data
+
+  const issues = result.error.issues.map((issue) => {
+    const at = issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""
+    return `${at}${issue.message}`
+  })
+  throw new Error(`Invalid flow config in ${source}: ${issues.join("; ")}`)
+}
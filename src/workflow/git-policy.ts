@@ -0,0 +1,133 @@
+/**
+ * Which `runGitCommand` (run_git_command) calls the client runs. Commands
+ * must be allowed by name; read-only invocations then run directly through
+ * OpenCode's bash tool, anything that may change the repository asks first.
+ */
+export type GitCommandPolicy = {
+  allowed: Set<string>
+  denied: Set<string>
+}
+
+type GitCommandDecision =
+  | { type: "allow" }
+  | { type: "ask" }
+  | { type: "deny"; message: string }
+
+/** Subcommands that only read (some of them only without certain arguments, see `isReadOnly`). */
+const DEFAULT_GIT_COMMANDS = [
+  "blame",
+  "branch",
+  "cat-file",
+  "describe",
+  "diff",
+  "grep",
+  "log",
+  "ls-files",
+  "ls-tree",
+  "merge-base",
+  "name-rev",
+  "remote",
+  "rev-list",
+  "rev-parse",
+  "shortlog",
+  "show",
+  "show-ref",
+  "stash",
+  "status",
+  "tag",
+]
+
+/** Options that write files or run external programs even on read-only commands. */
+const UNSAFE_ARGUMENT_RE = /^(--output|--open-files-in-pager|-O|--ext-diff|--exec|--upload-pack|--receive-pack)/
+
+const BRANCH_MUTATING_FLAGS = new Set([
+  "-d", "-D", "--delete", "-m", "-M", "--move", "-c", "-C", "--copy",
+  "-f", "--force", "-u", "--set-upstream-to", "--unset-upstream", "--edit-description",
+])
+
+/**
+ * Read the policy from provider options: `gitAllowedCommands` extends the
+ * read-only defaults, `gitDeniedCommands` removes commands (deny wins).
+ */
+export function parseGitCommandPolicy(options: Record<string, unknown>): GitCommandPolicy {
+  return {
+    allowed: new Set([...DEFAULT_GIT_COMMANDS, ...stringList(options.gitAllowedCommands)]),
+    denied: new Set(stringList(options.gitDeniedCommands)),
+  }
+}
+
+export function decideGitCommand(policy: GitCommandPolicy, command: string, args: string[]): GitCommandDecision {
+  if (!/^[a-z][a-z0-9-]*$/.test(command)) {
+    return { type: "deny", message: `"${command}" is not a git subcommand` }
+  }
+  if (policy.denied.has(command)) {
+    return { type: "deny", message: `git ${command} is disabled by client policy` }
+  }
+  if (!policy.allowed.has(command)) {
+    return { type: "deny", message: `git ${command} is not in the client's allowed git commands` }
+  }
+
+  return isReadOnly(command, args) ? { type: "allow" } : { type: "ask" }
+}
+
+/**
+ * Split DWS's single `arguments` string into argv, honouring single and
+ * double quotes. Each word is later shell-quoted on its own, so nothing in
+ * the string is interpreted by the shell.
+ */
+export function splitGitArguments(value: string): string[] {
+  const args: string[] = []
+  let current = ""
+  let inWord = false
+  let quote: "'" | "\"" | undefined
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = undefined
+      else current += char
+      continue
+    }
+    if (char === "'" || char === "\"") {
+      quote = char
+      inWord = true
+      continue
+    }
+    if (/\s/.test(char)) {
+      if (inWord) args.push(current)
+      current = ""
+      inWord = false
+      continue
+    }
+    current += char
+    inWord = true
+  }
+
+  if (inWord) args.push(current)
+  return args
+}
+
+function isReadOnly(command: string, args: string[]): boolean {
+  if (!DEFAULT_GIT_COMMANDS.includes(command)) return false
+  if (args.some((arg) => UNSAFE_ARGUMENT_RE.test(arg))) return false
+
+  switch (command) {
+    case "branch":
+      return args.every((arg) => arg.startsWith("-") && !BRANCH_MUTATING_FLAGS.has(arg.split("=")[0]))
+    case "tag":
+      return args.length === 0 || args[0] === "-l" || args[0] === "--list"
+    case "remote":
+      // `remote show <name>` queries the remote over the network unless `-n` is given.
+      return args.every((arg) => arg === "-v" || arg === "--verbose")
+        || (args[0] === "show" && (args.length === 1 || args.includes("-n")))
+        || args[0] === "get-url"
+    case "stash":
+      return args[0] === "list" || args[0] === "show"
+    default:
+      return true
+  }
+}
+
+function stringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((v): v is string => typeof v === "string" && v.trim().length > 0).map((v) => v.trim())
+}
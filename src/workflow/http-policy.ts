@@ -0,0 +1,133 @@
+/**
+ * Which `runHTTPRequest` (gitlab_api_request) calls the client executes.
+ * Requests must match an allowlist entry; read-only methods then run
+ * directly, anything else asks the user first.
+ */
+export type HttpRequestPolicy = {
+  rules: HttpRule[]
+}
+
+type HttpRule = {
+  method: string
+  pattern: RegExp
+}
+
+type HttpRequestDecision =
+  | { type: "allow" }
+  | { type: "ask" }
+  | { type: "deny"; message: string }
+
+/** Read-only access to projects, issues and merge requests. */
+const DEFAULT_HTTP_ALLOWLIST = [
+  "GET projects/*",
+  "GET projects/*/issues",
+  "GET projects/*/issues/**",
+  "GET projects/*/merge_requests",
+  "GET projects/*/merge_requests/**",
+  "GET issues",
+  "GET merge_requests",
+]
+
+const READ_ONLY_METHODS = new Set(["GET", "HEAD"])
+
+/**
+ * Read the allowlist from provider options (`gitlabApiAllowlist`), a list of
+ * `"<METHOD> <path>"` entries relative to `/api/v4/`. In paths `*` matches one
+ * segment and `**` any number; `*` as the method matches every method.
+ */
+export function parseHttpRequestPolicy(options: Record<string, unknown>): HttpRequestPolicy {
+  const entries = Array.isArray(options.gitlabApiAllowlist)
+    ? options.gitlabApiAllowlist.filter((e): e is string => typeof e === "string")
+    : DEFAULT_HTTP_ALLOWLIST
+
+  const rules: HttpRule[] = []
+  for (const entry of entries) {
+    const [method, path, ...rest] = entry.trim().split(/\s+/)
+    if (!method || !path || rest.length > 0) continue
+    rules.push({ method: method.toUpperCase(), pattern: pathPattern(normalizeApiPath(path)) })
+  }
+  return { rules }
+}
+
+export function decideHttpRequest(policy: HttpRequestPolicy, method: string, path: string): HttpRequestDecision {
+  const verb = method.toUpperCase()
+  const normalized = canonicalApiPath(path)
+
+  if (normalized === undefined) {
+    return { type: "deny", message: `${verb} ${path} is not a GitLab API path` }
+  }
+
+  const allowed = policy.rules.some((rule) =>
+    (rule.method === "*" || rule.method === verb) && rule.pattern.test(normalized),
+  )
+  if (!allowed) {
+    return { type: "deny", message: `${verb} ${path} is not in the client's GitLab API allowlist` }
+  }
+
+  return READ_ONLY_METHODS.has(verb) ? { type: "allow" } : { type: "ask" }
+}
+
+/**
+ * The path as the request will actually address it, relative to `/api/v4/`.
+ * The URL parser resolves dot segments, including percent-encoded ones
+ * (`%2e%2e`), so rules are matched against its result rather than the raw
+ * string. Undefined for anything that leaves `/api/v4/` or still hides a dot
+ * segment or an encoded `.` / `/` once decoded (double encoding).
+ */
+function canonicalApiPath(path: string): string | undefined {
+  const relative = normalizeApiPath(path)
+  if (/^[a-z][a-z0-9+.-]*:/i.test(relative) || hasDotSegment(relative)) return undefined
+
+  let pathname: string
+  try {
+    pathname = new URL(`api/v4/${relative}`, "http://gitlab.invalid/").pathname
+  } catch {
+    return undefined
+  }
+  if (!pathname.startsWith("/api/v4/")) return undefined
+  const canonical = pathname.slice("/api/v4/".length).replace(/\/+$/, "")
+
+  let decoded: string
+  try {
+    decoded = decodeURIComponent(canonical)
+  } catch {
+    return undefined
+  }
+  if (/%2e|%2f/i.test(decoded) || hasDotSegment(canonical)) return undefined
+  return canonical
+}
+
+/** A `.` or `..` segment, literal or percent-encoded (`%2e%2e`, `..%2f`). */
+function hasDotSegment(path: string): boolean {
+  let decoded: string
+  try {
+    decoded = decodeURIComponent(path)
+  } catch {
+    return true
+  }
+  return decoded.split(/[/\\]/).some((segment) => segment === "." || segment === "..")
+}
+
+/** `/api/v4/projects/1?x=y` → `projects/1` (query strings are not matched). */
+function normalizeApiPath(path: string): string {
+  return path
+    .split(/[?#]/)[0]
+    .replace(/^\/+/, "")
+    .replace(/^api\/v4\//, "")
+    .replace(/\/+$/, "")
+}
+
+function pathPattern(glob: string): RegExp {
+  const source = glob
+    .split("/")
+    .map((segment) => {
+      if (segment === "**") return ".+"
+      return segment.split("*").map(escapeRegExp).join("[^/]+")
+    })
+    .join("/")
+  return new RegExp(`^${source}$`)
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
@@ -0,0 +1,42 @@
+/**
+ * Human-in-the-loop plan review for flows that stop at
+ * PLAN_APPROVAL_REQUIRED (e.g. `software_development`).
+ *
+ * The drafted plan is rendered into the chat, and the user's next message
+ * is turned into the `approval` of the following startRequest.
+ */
+
+import { approvalAccepted, approvalRejected } from "./approval-policy"
+import type { PlanStep, StartWorkflowRequest } from "./types"
+
+const APPROVE_REPLY_RE = /^(?:approved?|yes|y|ok(?:ay)?|lgtm|proceed|go(?: ahead)?|continue|looks good)\b[\s.!]*$/i
+
+const STATUS_MARKERS: Record<string, string> = {
+  "not started": "[ ]",
+  "in progress": "[~]",
+  completed: "[x]",
+  cancelled: "[-]",
+}
+
+export function renderPlan(steps: PlanStep[]): string {
+  const lines = steps.map((step, i) => {
+    const marker = STATUS_MARKERS[step.status?.toLowerCase() ?? ""] ?? "[ ]"
+    return `${i + 1}. ${marker} ${step.description.trim()}`
+  })
+
+  return [
+    "\n\n**Proposed plan**\n",
+    ...lines,
+    "\nReply **approve** to run this plan, or describe what should change.\n",
+  ].join("\n")
+}
+
+/**
+ * A short affirmative reply approves the plan; anything else rejects it and
+ * is forwarded as feedback so the agent can revise the plan.
+ */
+export function planApprovalFromReply(reply: string): NonNullable<StartWorkflowRequest["approval"]> {
+  const text = reply.trim()
+  if (APPROVE_REPLY_RE.test(text)) return approvalAccepted()
+  return approvalRejected(text)
+}
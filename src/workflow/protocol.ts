@@ -0,0 +1,112 @@
+import { z } from "zod"
+import type { WorkflowAction, WorkflowToolAction } from "./types"
+
+/**
+ * Schemas for the frames DWS sends over the workflow WebSocket. Every frame
+ * is validated before it reaches the session; anything that does not match
+ * is reported as a `WorkflowProtocolError` carrying the offending frame.
+ */
+
+type ProtocolErrorKind =
+  /** Not JSON, or not a JSON object. */
+  | "malformed-frame"
+  /** A known action whose payload does not match its schema. */
+  | "invalid-action"
+  /** No action this client knows; ignored in lenient mode. */
+  | "unknown-action"
+
+export class WorkflowProtocolError extends Error {
+  readonly kind: ProtocolErrorKind
+  /** The frame as received (parsed when it was valid JSON). */
+  readonly frame: unknown
+  readonly issues: string[]
+
+  constructor(kind: ProtocolErrorKind, message: string, frame: unknown, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join("; ")}` : message)
+    this.name = "WorkflowProtocolError"
+    this.kind = kind
+    this.frame = frame
+    this.issues = issues
+  }
+}
+
+const CheckpointActionSchema = z.object({
+  requestID: z.string().optional(),
+  newCheckpoint: z.object({
+    status: z.string(),
+    checkpoint: z.string(),
+    goal: z.string().optional(),
+    errors: z.array(z.string()).optional(),
+  }).passthrough(),
+}).passthrough()
+
+type ToolActionKind = Exclude<keyof WorkflowToolAction, "requestID">
+
+const TOOL_ACTION_SCHEMAS: Record<ToolActionKind, z.ZodTypeAny> = {
+  runReadFile: z.object({ filepath: z.string(), limit: z.number().optional(), offset: z.number().optional() }),
+  runReadFiles: z.object({ filepaths: z.array(z.string()).default([]) }),
+  runWriteFile: z.object({ filepath: z.string(), contents: z.string() }),
+  runEditFile: z.object({ filepath: z.string(), oldString: z.string(), newString: z.string() }),
+  runShellCommand: z.object({ command: z.string() }),
+  runCommand: z.object({
+    program: z.string(),
+    arguments: z.array(z.string()).optional(),
+    flags: z.array(z.string()).optional(),
+  }),
+  runGitCommand: z.object({ command: z.string(), arguments: z.string().optional(), repository_url: z.string().optional() }),
+  runHTTPRequest: z.object({ method: z.string(), path: z.string(), body: z.string().optional() }),
+  listDirectory: z.object({ directory: z.string() }),
+  grep: z.object({ search_directory: z.string().optional(), pattern: z.string(), case_insensitive: z.boolean().optional() }),
+  findFiles: z.object({ name_pattern: z.string() }),
+  runMCPTool: z.object({ name: z.string(), args: z.string().optional() }),
+  mkdir: z.object({ directory_path: z.string() }),
+}
+
+/** Parse and validate one text frame. */
+export function decodeWorkflowAction(payload: string): WorkflowAction {
+  let frame: unknown
+  try {
+    frame = JSON.parse(payload)
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error)
+    throw new WorkflowProtocolError("malformed-frame", `Duo Workflow Service sent a frame that is not JSON (${reason})`, payload)
+  }
+  return validateWorkflowAction(frame)
+}
+
+/** Validate an already parsed frame (also used for replayed recordings). */
+export function validateWorkflowAction(frame: unknown): WorkflowAction {
+  if (!frame || typeof frame !== "object" || Array.isArray(frame)) {
+    throw new WorkflowProtocolError("malformed-frame", "Duo Workflow Service sent a frame that is not a JSON object", frame)
+  }
+
+  if ("newCheckpoint" in frame) {
+    const result = CheckpointActionSchema.safeParse(frame)
+    if (!result.success) {
+      throw new WorkflowProtocolError("invalid-action", "Invalid newCheckpoint action", frame, formatIssues(result.error))
+    }
+    return result.data
+  }
+
+  const keys = Object.keys(frame).filter((key) => key !== "requestID")
+  const kinds = keys.filter((key): key is ToolActionKind => key in TOOL_ACTION_SCHEMAS)
+  if (kinds.length === 0) {
+    const described = keys.length > 0 ? keys.join(", ") : "empty frame"
+    throw new WorkflowProtocolError("unknown-action", `Duo Workflow Service sent an unknown action (${described})`, frame)
+  }
+  if (kinds.length > 1) {
+    throw new WorkflowProtocolError("invalid-action", `Frame carries several actions (${kinds.join(", ")})`, frame)
+  }
+
+  const [kind] = kinds
+  const schema = z.object({ requestID: z.string().min(1), [kind]: TOOL_ACTION_SCHEMAS[kind] }).passthrough()
+  const result = schema.safeParse(frame)
+  if (!result.success) {
+    throw new WorkflowProtocolError("invalid-action", `Invalid ${kind} action`, frame, formatIssues(result.error))
+  }
+  return result.data as WorkflowToolAction
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+}
@@ -0,0 +1,241 @@
+/**
+ * Opt-in record and replay of Duo Workflow WebSocket sessions.
+ *
+ * Recording writes every inbound frame and outbound ClientEvent (heartbeats
+ * excluded) with timestamps to `<dir>/workflow-<id>.jsonl`, with credentials
+ * redacted. Replay feeds such a file back into WorkflowSession in place of
+ * the real socket, so a bug report can be reproduced offline.
+ */
+
+import { appendFileSync, mkdirSync, readFileSync } from "node:fs"
+import path from "node:path"
+import { validateWorkflowAction } from "./protocol"
+import type { ClientEvent } from "./types"
+import type { SocketCallbacks, WorkflowSocket } from "./websocket-client"
+
+type RecordEntry =
+  | { ts: string; type: "connect"; workflowId: string; url: string; headers: Record<string, string> }
+  | { ts: string; type: "in"; frame: unknown }
+  | { ts: string; type: "out"; event: unknown }
+  | { ts: string; type: "close"; code: number; reason: string }
+
+const REDACTED = "[REDACTED]"
+const SECRET_KEY_RE = /token|secret|password|authorization|cookie|api[_-]?key/i
+const GITLAB_TOKEN_RE = /\bgl[a-z]{2,5}-[A-Za-z0-9_-]{20,}/g
+
+/** `recordDir` provider option, else the `GITLAB_DUO_RECORD_DIR` env var. */
+export function resolveRecordDir(options: Record<string, unknown>): string | undefined {
+  return nonEmpty(options.recordDir) ?? nonEmpty(process.env.GITLAB_DUO_RECORD_DIR)
+}
+
+/** `replayFile` provider option, else the `GITLAB_DUO_REPLAY_FILE` env var. */
+export function resolveReplayFile(options: Record<string, unknown>): string | undefined {
+  return nonEmpty(options.replayFile) ?? nonEmpty(process.env.GITLAB_DUO_REPLAY_FILE)
+}
+
+export class WorkflowRecorder {
+  #file: string
+  #workflowId: string
+
+  constructor(dir: string, workflowId: string) {
+    this.#workflowId = workflowId
+    this.#file = path.join(dir, `workflow-${workflowId.replace(/[^\w.-]/g, "_")}.jsonl`)
+    try {
+      mkdirSync(dir, { recursive: true })
+    } catch {
+      // Non-fatal -- writes below fail silently too
+    }
+  }
+
+  connect(url: string, headers: Record<string, string>): void {
+    this.#write({ ts: now(), type: "connect", workflowId: this.#workflowId, url: redactUrl(url), headers: redactHeaders(headers) })
+  }
+
+  inbound(payload: string): void {
+    let frame: unknown = payload
+    try {
+      frame = JSON.parse(payload)
+    } catch {
+      // Keep malformed frames verbatim -- they are often the bug being reported
+    }
+    this.#write({ ts: now(), type: "in", frame: redact(frame) })
+  }
+
+  outbound(event: ClientEvent): void {
+    if ("heartbeat" in event) return
+    this.#write({ ts: now(), type: "out", event: redact(event) })
+  }
+
+  close(code: number, reason: string): void {
+    this.#write({ ts: now(), type: "close", code, reason })
+  }
+
+  #write(entry: RecordEntry): void {
+    try {
+      appendFileSync(this.#file, `${JSON.stringify(entry)}\n`, "utf8")
+    } catch {
+      // Recording is best effort and must never break a turn
+    }
+  }
+}
+
+/**
+ * A recording split into its connections. Each socket the session opens
+ * consumes the next connection; once they run out, connecting fails.
+ */
+export class WorkflowReplay {
+  readonly workflowId: string
+  #connections: RecordEntry[][]
+
+  private constructor(workflowId: string, connections: RecordEntry[][]) {
+    this.workflowId = workflowId
+    this.#connections = connections
+  }
+
+  static load(file: string): WorkflowReplay {
+    const entries = readFileSync(file, "utf8")
+      .split(/\r?\n/)
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as RecordEntry)
+
+    const connections: RecordEntry[][] = []
+    let workflowId: string | undefined
+    for (const entry of entries) {
+      if (entry.type === "connect") {
+        workflowId ??= entry.workflowId
+        connections.push([])
+        continue
+      }
+      connections.at(-1)?.push(entry)
+    }
+
+    if (!workflowId) throw new Error(`${file} is not a workflow recording (no connect entry)`)
+    return new WorkflowReplay(workflowId, connections)
+  }
+
+  createSocket(callbacks: SocketCallbacks): WorkflowSocket {
+    return new ReplaySocket(callbacks, this.#connections.shift())
+  }
+}
+
+/**
+ * Plays back one recorded connection: inbound frames are delivered in order,
+ * pausing at each recorded outbound event until the session sends something,
+ * so responses still follow the requests that caused them.
+ */
+class ReplaySocket implements WorkflowSocket {
+  #callbacks: SocketCallbacks
+  #entries: RecordEntry[] | undefined
+  #open = false
+  #sent: (() => void) | undefined
+  /** Events sent before playback reached the matching recorded one. */
+  #unmatchedSends = 0
+
+  constructor(callbacks: SocketCallbacks, entries: RecordEntry[] | undefined) {
+    this.#callbacks = callbacks
+    this.#entries = entries
+  }
+
+  get isOpen(): boolean {
+    return this.#open
+  }
+
+  async connect(_url: string, _headers: Record<string, string>): Promise<void> {
+    const entries = this.#entries
+    if (!entries) throw new Error("Replay exhausted: the recording has no further connections")
+    this.#open = true
+    setTimeout(() => void this.#play(entries), 0)
+  }
+
+  send(event: ClientEvent): boolean {
+    if (!this.#open) return false
+    if ("heartbeat" in event) return true
+    const sent = this.#sent
+    this.#sent = undefined
+    if (sent) sent()
+    else this.#unmatchedSends++
+    return true
+  }
+
+  close(): void {
+    if (!this.#open) return
+    this.#open = false
+    this.#sent?.()
+    setTimeout(() => this.#callbacks.close(1000, ""), 0)
+  }
+
+  async #play(entries: RecordEntry[]): Promise<void> {
+    for (const entry of entries) {
+      if (!this.#open) return
+
+      if (entry.type === "out") {
+        if (this.#unmatchedSends > 0) {
+          this.#unmatchedSends--
+          continue
+        }
+        await new Promise<void>((resolve) => {
+          this.#sent = resolve
+        })
+        continue
+      }
+
+      if (entry.type === "in") {
+        try {
+          this.#callbacks.action(validateWorkflowAction(entry.frame))
+        } catch (error) {
+          this.#callbacks.error(error instanceof Error ? error : new Error(String(error)))
+        }
+        await new Promise((resolve) => setTimeout(resolve, 0))
+        continue
+      }
+
+      if (entry.type === "close") {
+        this.#open = false
+        this.#callbacks.close(entry.code, entry.reason)
+        return
+      }
+    }
+  }
+}
+
+function redact(value: unknown, key?: string): unknown {
+  if (key && SECRET_KEY_RE.test(key) && value !== null && typeof value !== "object") return REDACTED
+  if (typeof value === "string") return value.replace(GITLAB_TOKEN_RE, REDACTED)
+  if (Array.isArray(value)) return value.map((item) => redact(item))
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {}
+    for (const [k, v] of Object.entries(value)) out[k] = redact(v, k)
+    return out
+  }
+  return value
+}
+
+function redactHeaders(headers: Record<string, string>): Record<string, string> {
+  const out: Record<string, string> = {}
+  for (const [key, value] of Object.entries(headers)) {
+    out[key] = SECRET_KEY_RE.test(key) ? REDACTED : value
+  }
+  return out
+}
+
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url)
+    for (const key of [...parsed.searchParams.keys()]) {
+      if (SECRET_KEY_RE.test(key)) parsed.searchParams.set(key, REDACTED)
+    }
+    return parsed.toString()
+  } catch {
+    return url
+  }
+}
+
+function nonEmpty(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined
+  const trimmed = value.trim()
+  return trimmed.length > 0 ? trimmed : undefined
+}
+
+function now(): string {
+  return new Date().toISOString()
+}
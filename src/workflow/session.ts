@@ -1,23 +1,52 @@
 import { randomUUID } from "node:crypto"
 import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  WORKFLOW_ACTION_TIMEOUT_MS,
   WORKFLOW_CLIENT_VERSION,
-  WORKFLOW_DEFINITION,
   WORKFLOW_ENVIRONMENT,
+  WORKFLOW_RECONNECT_BASE_DELAY_MS,
+  WORKFLOW_RECONNECT_MAX_ATTEMPTS,
+  WORKFLOW_RECONNECT_MAX_DELAY_MS,
 } from "../constants"
-import { type GitLabClientOptions, post } from "../gitlab/client"
-import { fetchProjectDetails, detectProjectPath, resolveRootNamespaceId } from "../gitlab/project"
+import {
+  GitLabAuthError,
+  type GitLabClientOptions,
+  GitLabNetworkError,
+  GitLabNotFoundError,
+  GitLabRateLimitError,
+  type RawResponse,
+  post,
+  requestRaw,
+} from "../gitlab/client"
+import { fetchProjectDetails, projectPathFromUrl, resolveProject, resolveRootNamespaceId } from "../gitlab/project"
 import { AsyncQueue } from "../utils/async-queue"
-import { createCheckpointState, extractAgentTextDeltas, type CheckpointState } from "./checkpoint"
+import { instanceEndpoint } from "../utils/url"
+import { type BackoffPolicy, backoffDelay, sleep } from "../utils/backoff"
+import { type ApprovalPolicy, decideApproval, preapprovedTools } from "./approval-policy"
+import {
+  createCheckpointState,
+  extractAgentTextDeltas,
+  extractPlan,
+  markCheckpointResync,
+  pendingToolCall,
+  type CheckpointState,
+} from "./checkpoint"
+import { type GitCommandPolicy, decideGitCommand, parseGitCommandPolicy, splitGitArguments } from "./git-policy"
+import { type HttpRequestPolicy, decideHttpRequest, parseHttpRequestPolicy } from "./http-policy"
 import { WorkflowTokenService } from "./token-service"
 import type {
   AdditionalContext,
   McpToolDefinition,
+  StartWorkflowRequest,
   WorkflowAction,
   WorkflowToolAction,
   WorkflowCreateResponse,
 } from "./types"
-import { isCheckpointAction, isTurnComplete, isToolApproval } from "./types"
-import { WorkflowWebSocketClient } from "./websocket-client"
+import { isCheckpointAction, isPlanApproval, isTurnComplete, isToolApproval } from "./types"
+import { planApprovalFromReply, renderPlan } from "./plan"
+import { WorkflowProtocolError } from "./protocol"
+import { WorkflowRecorder, WorkflowReplay } from "./recording"
+import { type SocketCallbacks, type WorkflowSocket, WorkflowWebSocketClient } from "./websocket-client"
 import { mapActionToToolRequest } from "./action-mapper"
 
 /**
@@ -34,43 +63,116 @@ export type WorkflowToolsConfig = {
 /** Events emitted by the session's event stream. */
 type SessionEvent =
   | { type: "text-delta"; value: string }
-  | { type: "tool-request"; requestId: string; toolName: string; args: Record<string, unknown> }
-  | { type: "error"; message: string }
-
-const BLOCKED_HTTP_REQUEST_ERROR = "gitlab_api_request is disabled by client policy"
-const BLOCKED_GIT_COMMAND_ERROR = "run_git_command is disabled by client policy"
+  | { type: "tool-request"; requestId: string; toolName: string; args: Record<string, unknown>; mcp: boolean }
+  | { type: "approval-request"; toolName: string; args: Record<string, unknown> }
+  /** A standalone action (gitlab_api_request, run_git_command) that needs the user's permission. */
+  | { type: "action-approval-request"; requestId: string; toolName: string; args: Record<string, unknown> }
+  /** `error` is the structured cause (e.g. a WorkflowProtocolError with its frame). */
+  | { type: "error"; message: string; error?: Error }
+
+type HttpRequest = NonNullable<WorkflowToolAction["runHTTPRequest"]>
+type GitCommand = NonNullable<WorkflowToolAction["runGitCommand"]>
+
+/** What to do once the user grants an `action-approval-request`. */
+type PendingAction =
+  | { type: "http"; request: HttpRequest }
+  | { type: "git"; command: GitCommand; toolRequest: Extract<SessionEvent, { type: "tool-request" }> }
+
+const DEFAULT_RECONNECT_POLICY: BackoffPolicy = {
+  maxAttempts: WORKFLOW_RECONNECT_MAX_ATTEMPTS,
+  baseDelayMs: WORKFLOW_RECONNECT_BASE_DELAY_MS,
+  maxDelayMs: WORKFLOW_RECONNECT_MAX_DELAY_MS,
+}
 
 export class WorkflowSession {
   #client: GitLabClientOptions
   #tokenService: WorkflowTokenService
   #modelId: string
+  #workflowDefinition: string
   #cwd: string
   #workflowId: string | undefined
   #projectPath: string | undefined
   #rootNamespaceId: string | undefined
+  #projectLoad: Promise<void> | undefined
   #checkpoint: CheckpointState = createCheckpointState()
   #toolsConfig: WorkflowToolsConfig | undefined
-  #socket: WorkflowWebSocketClient | undefined
+  #socket: WorkflowSocket | undefined
   #queue: AsyncQueue<SessionEvent> | undefined
+  /** The queue the current turn reads from; kept once closed so buffered events still drain. */
+  #events: AsyncQueue<SessionEvent> | undefined
+  #reconnecting: Promise<void> | undefined
+  #reconnectPolicy: BackoffPolicy
+  #approvalPolicy: ApprovalPolicy
+  #httpPolicy: HttpRequestPolicy
+  #gitPolicy: GitCommandPolicy
+  /** Actions waiting for the user's permission, by DWS request ID. */
+  #pendingActions = new Map<string, PendingAction>()
   #startRequestSent = false
-  #pendingApproval = false
+  /** Approval decided for the current TOOL_CALL_APPROVAL_REQUIRED, sent once DWS closes the stream. */
+  #pendingApproval: StartWorkflowRequest["approval"] | undefined
+  /** Waiting for the user to answer an approval request (`ask` policy). */
+  #awaitingApproval = false
+  /**
+   * The last turn ended at PLAN_APPROVAL_REQUIRED; the next goal answers it.
+   * Kept in memory only: after OpenCode restarts, the reply to a pending
+   * plan is sent as a new goal, without an approval.
+   */
+  #awaitingPlanApproval = false
   #resumed = false
+  #checkpointStatus: string | undefined
+  #requestId: string | undefined
+  #recordDir: string | undefined
+  #replayFile: string | undefined
+  #replay: WorkflowReplay | undefined
+  #lenientProtocol: boolean
+  /** Actions DWS waits on, by request ID; answered with an error when the timer fires. */
+  #outstanding = new Map<string, { kind: string; timer: ReturnType<typeof setTimeout> | undefined }>()
+  /** Request IDs answered by the timeout; late results for them are dropped. */
+  #expired = new Set<string>()
+  #actionTimeoutMs: number
+  /** Problems to report with the next stream (see takeWarnings). */
+  #warnings: string[] = []
 
   #onWorkflowCreated: ((workflowId: string) => void) | undefined
 
   constructor(client: GitLabClientOptions, modelId: string, cwd: string, options?: {
     existingWorkflowId?: string
     onWorkflowCreated?: (workflowId: string) => void
+    reconnect?: Partial<BackoffPolicy>
+    approvalPolicy?: ApprovalPolicy
+    /** Which gitlab_api_request calls are executed; defaults to read-only project, issue and MR access. */
+    httpPolicy?: HttpRequestPolicy
+    /** Which run_git_command calls are run; defaults to read-only subcommands. */
+    gitPolicy?: GitCommandPolicy
+    /** DWS workflow definition to run (defaults to "chat"). */
+    workflowDefinition?: string
+    /** Record every socket frame to `<recordDir>/workflow-<id>.jsonl`. */
+    recordDir?: string
+    /** Play back a recording instead of talking to GitLab. */
+    replayFile?: string
+    /** Ignore actions this client does not know (with a warning) instead of failing the turn. */
+    lenientProtocol?: boolean
+    /** How long an action may go unanswered before DWS gets an error for it. */
+    actionTimeoutMs?: number
   }) {
     this.#client = client
-    this.#tokenService = new WorkflowTokenService(client)
+    this.#workflowDefinition = options?.workflowDefinition ?? DEFAULT_WORKFLOW_DEFINITION
+    this.#tokenService = new WorkflowTokenService(client, this.#workflowDefinition)
     this.#modelId = modelId
     this.#cwd = cwd
+    this.#reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...options?.reconnect }
+    this.#approvalPolicy = options?.approvalPolicy ?? { mode: "auto", deniedTools: [] }
+    this.#httpPolicy = options?.httpPolicy ?? parseHttpRequestPolicy({})
+    this.#gitPolicy = options?.gitPolicy ?? parseGitCommandPolicy({})
     if (options?.existingWorkflowId) {
       this.#workflowId = options.existingWorkflowId
       this.#resumed = true
     }
     this.#onWorkflowCreated = options?.onWorkflowCreated
+    this.#recordDir = options?.recordDir
+    this.#replayFile = options?.replayFile
+    this.#lenientProtocol = options?.lenientProtocol ?? false
+    this.#actionTimeoutMs = options?.actionTimeoutMs ?? WORKFLOW_ACTION_TIMEOUT_MS
   }
 
   /**
@@ -84,16 +186,50 @@ export class WorkflowSession {
     return this.#workflowId
   }
 
+  get workflowDefinition(): string {
+    return this.#workflowDefinition
+  }
+
   get hasStarted(): boolean {
     return this.#startRequestSent
   }
 
+  /** Status of the most recent checkpoint received from DWS. */
+  get checkpointStatus(): string | undefined {
+    return this.#checkpointStatus
+  }
+
+  /** `x-request-id` of the current (or last) WebSocket connection. */
+  get requestId(): string | undefined {
+    return this.#requestId
+  }
+
+  /**
+   * Resolve the GitLab project and its root namespace, once per session.
+   * Adds a warning when there is none, so callers can report it up front.
+   */
+  loadProject(): Promise<void> {
+    this.#projectLoad ??= this.#loadProjectContext()
+    return this.#projectLoad
+  }
+
+  /** Warnings collected since the last call, e.g. ignored unknown actions. */
+  takeWarnings(): string[] {
+    return this.#warnings.splice(0)
+  }
+
   reset(): void {
     this.#workflowId = undefined
     this.#checkpoint = createCheckpointState()
+    this.#checkpointStatus = undefined
+    this.#requestId = undefined
+    this.#replay = undefined
+    this.#pendingActions.clear()
+    this.#expired.clear()
     this.#tokenService.clear()
     this.#closeConnection()
-    this.#pendingApproval = false
+    this.#events = undefined
+    this.#awaitingPlanApproval = false
     this.#resumed = false
     this.#startRequestSent = false
   }
@@ -103,7 +239,17 @@ export class WorkflowSession {
   // ---------------------------------------------------------------------------
 
   async ensureConnected(goal: string): Promise<void> {
-    if (this.#socket && this.#queue) return
+    // A dropped socket is being re-opened in the background -- wait for it
+    // instead of racing it with a second connection.
+    if (this.#reconnecting) await this.#reconnecting
+    // While the user decides on an approval the stream is parked on the
+    // existing queue; submitApproval() re-opens it.
+    if (this.#queue && (this.#socket || this.#awaitingApproval)) return
+
+    if (this.#replayFile && !this.#replay) {
+      this.#replay = WorkflowReplay.load(this.#replayFile)
+      this.#workflowId = this.#replay.workflowId
+    }
 
     if (!this.#workflowId) {
       this.#workflowId = await this.#createWorkflow(goal)
@@ -111,6 +257,7 @@ export class WorkflowSession {
 
     const queue = new AsyncQueue<SessionEvent>()
     this.#queue = queue
+    this.#events = queue
     await this.#connectSocket(queue)
   }
 
@@ -119,32 +266,62 @@ export class WorkflowSession {
    * Replaces any existing socket but does NOT create a new queue.
    */
   async #connectSocket(queue: AsyncQueue<SessionEvent>): Promise<void> {
-    await this.#tokenService.get(this.#rootNamespaceId)
+    const replay = this.#replay
+    if (!replay) await this.#tokenService.get(this.#rootNamespaceId)
 
-    const socket = new WorkflowWebSocketClient({
+    let transportError: string | undefined
+    const callbacks: SocketCallbacks = {
       action: (action) => this.#handleAction(action, queue),
-      error: (error) => queue.push({ type: "error", message: error.message }),
-      close: (_code, _reason) => {
+      error: (error) => {
+        if (error instanceof WorkflowProtocolError) {
+          this.#handleProtocolError(error, queue)
+          return
+        }
+        // Transport errors are always followed by a close; let the close
+        // handler decide between reconnecting and surfacing them.
+        if (socket.isOpen) {
+          queue.push({ type: "error", message: error.message })
+        } else {
+          transportError = error.message
+        }
+      },
+      close: (code, reason) => {
+        // Closed on purpose (turn complete, abort, reset) or superseded by a
+        // reconnect: #closeConnection already closed the queue if needed.
+        if (this.#socket !== socket) return
+
         this.#socket = undefined
-        if (this.#pendingApproval) {
-          this.#pendingApproval = false
-          this.#reconnectWithApproval(queue)
+        const approval = this.#pendingApproval
+        if (approval) {
+          this.#pendingApproval = undefined
+          this.#reconnect(queue, approval)
+        } else if (this.#awaitingApproval) {
+          // Keep the queue; submitApproval() reconnects once the user answers.
+        } else if (this.#startRequestSent) {
+          this.#reconnect(queue, undefined, transportError ?? describeClose(code, reason))
         } else {
           this.#queue = undefined
           queue.close()
         }
       },
-    })
+    }
+    const socket = replay
+      ? replay.createSocket(callbacks)
+      : new WorkflowWebSocketClient(callbacks, this.#recordDir && this.#workflowId
+        ? new WorkflowRecorder(this.#recordDir, this.#workflowId)
+        : undefined, this.#client.transport)
 
     const url = buildWebSocketUrl(this.#client.instanceUrl, this.#modelId)
+    const requestId = randomUUID()
     await socket.connect(url, {
       authorization: `Bearer ${this.#client.token}`,
       origin: new URL(this.#client.instanceUrl).origin,
-      "x-request-id": randomUUID(),
+      "x-request-id": requestId,
       "x-gitlab-client-type": "node-websocket",
     })
 
     this.#socket = socket
+    this.#requestId = requestId
   }
 
   // ---------------------------------------------------------------------------
@@ -157,29 +334,9 @@ export class WorkflowSession {
   ): void {
     if (!this.#socket || !this.#workflowId) throw new Error("Not connected")
 
-    const mcpTools = this.#toolsConfig?.mcpTools ?? []
-    const preapprovedTools = mcpTools.map((t) => t.name)
-
-    this.#socket.send({
-      startRequest: {
-        workflowID: this.#workflowId,
-        clientVersion: WORKFLOW_CLIENT_VERSION,
-        workflowDefinition: WORKFLOW_DEFINITION,
-        goal,
-        workflowMetadata: JSON.stringify({
-          extended_logging: false,
-        }),
-        clientCapabilities: ["shell_command"],
-        mcpTools,
-        additional_context: additionalContext,
-        preapproved_tools: preapprovedTools,
-        ...(this.#toolsConfig?.flowConfig ? {
-          flowConfig: this.#toolsConfig.flowConfig,
-          flowConfigSchemaVersion: this.#toolsConfig.flowConfigSchemaVersion ?? "v1",
-        } : {}),
-      },
-    })
-    this.#startRequestSent = true
+    const approval = this.#awaitingPlanApproval ? planApprovalFromReply(goal) : undefined
+    this.#awaitingPlanApproval = false
+    this.#sendStart(this.#socket, this.#workflowId, goal, additionalContext, approval)
   }
 
   /**
@@ -187,6 +344,7 @@ export class WorkflowSession {
    */
   sendToolResult(requestId: string, output: string, error?: string): void {
     if (!this.#socket) throw new Error("Not connected")
+    if (!this.#settleRequest(requestId)) return
     this.#socket.send({
       actionResponse: {
         requestID: requestId,
@@ -204,6 +362,7 @@ export class WorkflowSession {
    */
   sendHttpResult(requestId: string, statusCode: number, headers: Record<string, string>, body: string, error?: string): void {
     if (!this.#socket) throw new Error("Not connected")
+    if (!this.#settleRequest(requestId)) return
     this.#socket.send({
       actionResponse: {
         requestID: requestId,
@@ -217,13 +376,52 @@ export class WorkflowSession {
     })
   }
 
+  /**
+   * Answer an approval request surfaced as an `approval-request` event.
+   * If DWS has not closed the stream yet the answer is sent when it does;
+   * otherwise the socket is re-opened right away.
+   */
+  submitApproval(approval: NonNullable<StartWorkflowRequest["approval"]>): void {
+    if (!this.#awaitingApproval) return
+    this.#awaitingApproval = false
+
+    const queue = this.#queue
+    if (!queue) return
+
+    if (this.#socket) {
+      this.#pendingApproval = approval
+    } else {
+      this.#reconnect(queue, approval)
+    }
+  }
+
+  /**
+   * Answer an `action-approval-request`: run the action, or tell DWS the
+   * user rejected it.
+   */
+  answerActionApproval(requestId: string, approved: boolean): void {
+    const pending = this.#pendingActions.get(requestId)
+    if (!pending) return
+    this.#pendingActions.delete(requestId)
+
+    if (pending.type === "http") {
+      const { method, path } = pending.request
+      if (approved) void this.#executeHttpRequest(requestId, pending.request)
+      else this.sendHttpResult(requestId, 403, {}, "", `The user rejected ${method.toUpperCase()} ${path}`)
+      return
+    }
+
+    if (approved) this.#queue?.push(pending.toolRequest)
+    else this.sendToolResult(requestId, "", `The user rejected git ${pending.command.command}`)
+  }
+
   /**
    * Wait for the next event from the session.
    * Returns null when the stream is closed (turn complete or connection lost).
    */
   async waitForEvent(): Promise<SessionEvent | null> {
-    if (!this.#queue) return null
-    return this.#queue.shift()
+    if (!this.#events) return null
+    return this.#events.shift()
   }
 
   /**
@@ -243,6 +441,7 @@ export class WorkflowSession {
     if (isCheckpointAction(action)) {
       const ckpt = action.newCheckpoint.checkpoint
       const status = action.newCheckpoint.status
+      this.#checkpointStatus = status
 
       // Extract agent text deltas (always — to keep checkpoint state current).
       const deltas = extractAgentTextDeltas(ckpt, this.#checkpoint)
@@ -259,12 +458,30 @@ export class WorkflowSession {
       if (isToolApproval(status)) {
         // DWS wants tool approval. Don't extract tool requests from the
         // checkpoint — the actual tool will arrive as a standalone action
-        // after we auto-approve. Don't close the queue; DWS will close
-        // the stream, triggering #reconnectWithApproval via the close callback.
-        this.#pendingApproval = true
+        // once approved. Don't close the queue; DWS will close the stream,
+        // and the close callback reconnects with the decided approval.
+        const tool = pendingToolCall(this.#checkpoint)
+        const decision = decideApproval(this.#approvalPolicy, tool)
+        if (decision.type === "respond") {
+          this.#pendingApproval = decision.approval
+          return
+        }
+
+        this.#awaitingApproval = true
+        queue.push({
+          type: "approval-request",
+          toolName: tool?.name ?? "unknown",
+          args: tool?.args ?? {},
+        })
         return
       }
 
+      if (isPlanApproval(status)) {
+        const steps = extractPlan(ckpt)
+        if (steps.length > 0) queue.push({ type: "text-delta", value: renderPlan(steps) })
+        this.#awaitingPlanApproval = true
+      }
+
       if (isTurnComplete(status)) {
         queue.close()
         this.#closeConnection()
@@ -272,15 +489,20 @@ export class WorkflowSession {
       return
     }
 
-    // --- Blocked actions: never execute these locally ---
+    // Every other action expects exactly one actionResponse.
     const toolAction = action as WorkflowToolAction
+    const kind = actionKind(toolAction)
+    if (toolAction.requestID) this.#trackRequest(toolAction.requestID, kind)
+
+    // --- GitLab API requests: executed with the session's credentials ---
     if (toolAction.runHTTPRequest && toolAction.requestID) {
-      this.sendHttpResult(toolAction.requestID, 403, {}, "", BLOCKED_HTTP_REQUEST_ERROR)
+      this.#handleHttpRequest(toolAction.requestID, toolAction.runHTTPRequest, queue)
       return
     }
 
+    // --- Git commands: checked against the git policy, run through bash ---
     if (toolAction.runGitCommand && toolAction.requestID) {
-      this.sendToolResult(toolAction.requestID, "", BLOCKED_GIT_COMMAND_ERROR)
+      void this.#handleGitCommand(toolAction.requestID, toolAction.runGitCommand, queue)
       return
     }
 
@@ -294,80 +516,317 @@ export class WorkflowSession {
         requestId: mapped.requestId,
         toolName: mapped.toolName,
         args: mapped.args,
+        mcp: mapped.mcp ?? false,
       })
+      return
+    }
+
+    if (toolAction.requestID) this.#rejectUnsupported(toolAction.requestID, kind)
+  }
+
+  /** Tell DWS this client cannot run the action, so it does not wait for it. */
+  #rejectUnsupported(requestId: string, kind: string): void {
+    this.#warnings.push(`Duo Workflow Service requested an unsupported action (${kind}); it was refused`)
+    if (this.#socket) this.sendToolResult(requestId, "", `Unsupported action: ${kind} is not available in this client`)
+  }
+
+  /**
+   * Stop the action timers while OpenCode has the turn: its tools may wait on
+   * a permission prompt for as long as the user takes to answer.
+   */
+  pauseActionTimers(): void {
+    for (const request of this.#outstanding.values()) {
+      clearTimeout(request.timer)
+      request.timer = undefined
     }
   }
 
+  /** Give every action still waiting for a result a full timeout again. */
+  resumeActionTimers(): void {
+    for (const [requestId, request] of this.#outstanding) {
+      if (!request.timer) request.timer = this.#startTimer(requestId)
+    }
+  }
+
+  #trackRequest(requestId: string, kind: string): void {
+    clearTimeout(this.#outstanding.get(requestId)?.timer)
+    this.#expired.delete(requestId)
+    this.#outstanding.set(requestId, { kind, timer: this.#startTimer(requestId) })
+  }
+
+  #startTimer(requestId: string): ReturnType<typeof setTimeout> {
+    const timer = setTimeout(() => this.#expireRequest(requestId), this.#actionTimeoutMs)
+    timer.unref?.()
+    return timer
+  }
+
+  /** False when the request already timed out and was answered with an error. */
+  #settleRequest(requestId: string): boolean {
+    if (this.#expired.delete(requestId)) return false
+    clearTimeout(this.#outstanding.get(requestId)?.timer)
+    this.#outstanding.delete(requestId)
+    return true
+  }
+
+  #expireRequest(requestId: string): void {
+    const request = this.#outstanding.get(requestId)
+    if (!request) return
+    this.#pendingActions.delete(requestId)
+
+    const message = `No result for ${request.kind} within ${Math.ceil(this.#actionTimeoutMs / 1000)}s`
+    this.#warnings.push(`${message}; the request was answered with an error`)
+    if (this.#socket) {
+      if (request.kind === "runHTTPRequest") this.sendHttpResult(requestId, 504, {}, "", message)
+      else this.sendToolResult(requestId, "", message)
+    } else {
+      this.#settleRequest(requestId)
+    }
+    this.#expired.add(requestId)
+  }
+
+  /**
+   * A frame failed validation. Unknown actions are only warned about in
+   * lenient mode; everything else fails the turn with the frame attached.
+   */
+  #handleProtocolError(error: WorkflowProtocolError, queue: AsyncQueue<SessionEvent>): void {
+    const requestId = requestIdOf(error.frame)
+    if (error.kind === "unknown-action" && requestId) {
+      // DWS still waits for an answer, whether or not the turn continues.
+      if (this.#socket) this.sendToolResult(requestId, "", `Unsupported action: ${error.message}`)
+    }
+    if (error.kind === "unknown-action" && this.#lenientProtocol) {
+      this.#warnings.push(`${error.message}; ignored`)
+      return
+    }
+    queue.push({ type: "error", message: error.message, error })
+  }
+
+  #handleHttpRequest(requestId: string, request: HttpRequest, queue: AsyncQueue<SessionEvent>): void {
+    const decision = decideHttpRequest(this.#httpPolicy, request.method, request.path)
+    if (decision.type === "deny") {
+      this.sendHttpResult(requestId, 403, {}, "", decision.message)
+      return
+    }
+    if (decision.type === "allow") {
+      void this.#executeHttpRequest(requestId, request)
+      return
+    }
+
+    // Writes go through OpenCode's permission system first.
+    this.#pendingActions.set(requestId, { type: "http", request })
+    queue.push({
+      type: "action-approval-request",
+      requestId,
+      toolName: "gitlab_api_request",
+      args: { method: request.method.toUpperCase(), path: request.path, body: request.body },
+    })
+  }
+
+  async #handleGitCommand(requestId: string, command: GitCommand, queue: AsyncQueue<SessionEvent>): Promise<void> {
+    const args = splitGitArguments(command.arguments ?? "")
+    const decision = decideGitCommand(this.#gitPolicy, command.command, args)
+    if (decision.type === "deny") {
+      this.sendToolResult(requestId, "", decision.message)
+      return
+    }
+
+    const mismatch = await this.#checkRepositoryUrl(command.repository_url)
+    if (mismatch) {
+      if (this.#socket) this.sendToolResult(requestId, "", mismatch)
+      return
+    }
+
+    const toolRequest = {
+      type: "tool-request" as const,
+      requestId,
+      toolName: "run_git_command",
+      args: { command: command.command, args },
+      mcp: false,
+    }
+    if (decision.type === "allow") {
+      queue.push(toolRequest)
+      return
+    }
+
+    this.#pendingActions.set(requestId, { type: "git", command, toolRequest })
+    queue.push({
+      type: "action-approval-request",
+      requestId,
+      toolName: "run_git_command",
+      args: { command: command.command, arguments: args },
+    })
+  }
+
+  /** Error message when `repository_url` is not the project this session works on. */
+  async #checkRepositoryUrl(repositoryUrl: string | undefined): Promise<string | undefined> {
+    if (!repositoryUrl) return undefined
+
+    await this.loadProject()
+    const requested = projectPathFromUrl(repositoryUrl, this.#client.instanceUrl)
+    if (requested && this.#projectPath && requested.toLowerCase() === this.#projectPath.toLowerCase()) {
+      return undefined
+    }
+    return `repository_url ${repositoryUrl} does not match this project's remote (${this.#projectPath ?? "none detected"})`
+  }
+
+  async #executeHttpRequest(requestId: string, request: HttpRequest): Promise<void> {
+    let response: RawResponse
+    try {
+      response = await requestRaw(this.#client, request.method.toUpperCase(), request.path, request.body)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const status = error instanceof GitLabNetworkError && error.timedOut ? 504 : 502
+      if (this.#socket) this.sendHttpResult(requestId, status, {}, "", `GitLab API request failed: ${message}`)
+      return
+    }
+
+    // The turn may have been aborted or reset while the request ran.
+    if (this.#socket) this.sendHttpResult(requestId, response.status, response.headers, response.body)
+  }
+
   // ---------------------------------------------------------------------------
   // Private: connection management
   // ---------------------------------------------------------------------------
 
   /**
-   * Auto-approve at DWS protocol level and reconnect.
+   * Re-open the socket for the same workflow and resume it, wiring the new
+   * socket to the SAME queue so Phase 3 in the model keeps consuming events
+   * seamlessly.
    *
-   * DWS closed the stream after TOOL_CALL_APPROVAL_REQUIRED. We open a new
-   * WebSocket, send startRequest with approval, and wire it to the SAME queue
-   * so Phase 3 in the model continues consuming events seamlessly.
+   * Used both after TOOL_CALL_APPROVAL_REQUIRED (DWS closes the stream and
+   * expects a startRequest carrying the approval) and after an unexpected
+   * drop mid-turn. Attempts back off exponentially with jitter; an error is
+   * only surfaced once every attempt has failed.
    *
    * The actual tool execution still goes through OpenCode's permission system
    * when the standalone action arrives on the new stream.
    */
-  #reconnectWithApproval(queue: AsyncQueue<SessionEvent>): void {
-    this.#connectSocket(queue)
-      .then(() => {
-        if (!this.#socket || !this.#workflowId) {
-          queue.close()
-          return
-        }
+  #reconnect(
+    queue: AsyncQueue<SessionEvent>,
+    approval?: StartWorkflowRequest["approval"],
+    cause?: string,
+  ): void {
+    const task = this.#runReconnect(queue, approval, cause).finally(() => {
+      if (this.#reconnecting === task) this.#reconnecting = undefined
+    })
+    this.#reconnecting = task
+  }
 
-        const mcpTools = this.#toolsConfig?.mcpTools ?? []
-
-        this.#socket.send({
-          startRequest: {
-            workflowID: this.#workflowId,
-            clientVersion: WORKFLOW_CLIENT_VERSION,
-            workflowDefinition: WORKFLOW_DEFINITION,
-            goal: "",
-            workflowMetadata: JSON.stringify({ extended_logging: false }),
-            clientCapabilities: ["shell_command"],
-            mcpTools,
-            additional_context: [],
-            preapproved_tools: mcpTools.map((t) => t.name),
-            approval: { approval: {} },
-            ...(this.#toolsConfig?.flowConfig ? {
-              flowConfig: this.#toolsConfig.flowConfig,
-              flowConfigSchemaVersion: this.#toolsConfig.flowConfigSchemaVersion ?? "v1",
-            } : {}),
-          },
-        })
-        this.#startRequestSent = true
-      })
-      .catch(() => {
-        this.#queue = undefined
-        queue.close()
-      })
+  async #runReconnect(
+    queue: AsyncQueue<SessionEvent>,
+    approval: StartWorkflowRequest["approval"] | undefined,
+    cause: string | undefined,
+  ): Promise<void> {
+    const policy = this.#reconnectPolicy
+    let lastError = cause
+
+    // After a drop the next checkpoint may lag behind what was streamed.
+    if (!approval) markCheckpointResync(this.#checkpoint)
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      // An approval reconnect is expected -- only back off once it has failed.
+      const delay = approval && attempt === 1 ? 0 : backoffDelay(attempt, policy)
+      if (delay > 0) await sleep(delay)
+      if (this.#queue !== queue) return // aborted or reset while waiting
+
+      try {
+        await this.#connectSocket(queue)
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : String(error)
+        continue
+      }
+
+      const socket = this.#socket
+      if (this.#queue !== queue || !socket || !this.#workflowId) {
+        this.#socket = undefined
+        socket?.close()
+        return
+      }
+
+      this.#sendStart(socket, this.#workflowId, "", [], approval)
+      return
+    }
+
+    this.#queue = undefined
+    this.#startRequestSent = false
+    queue.push({
+      type: "error",
+      message: `Lost connection to the Duo Workflow Service after ${policy.maxAttempts} reconnect attempts`
+        + (lastError ? `: ${lastError}` : ""),
+    })
+    queue.close()
+  }
+
+  #sendStart(
+    socket: WorkflowSocket,
+    workflowId: string,
+    goal: string,
+    additionalContext: AdditionalContext[],
+    approval?: StartWorkflowRequest["approval"],
+  ): void {
+    const mcpTools = this.#toolsConfig?.mcpTools ?? []
+
+    socket.send({
+      startRequest: {
+        workflowID: workflowId,
+        clientVersion: WORKFLOW_CLIENT_VERSION,
+        workflowDefinition: this.#workflowDefinition,
+        goal,
+        workflowMetadata: JSON.stringify({
+          extended_logging: false,
+        }),
+        clientCapabilities: ["shell_command"],
+        mcpTools,
+        additional_context: additionalContext,
+        preapproved_tools: preapprovedTools(this.#approvalPolicy, mcpTools.map((t) => t.name)),
+        ...(approval ? { approval } : {}),
+        ...(this.#toolsConfig?.flowConfig ? {
+          flowConfig: this.#toolsConfig.flowConfig,
+          flowConfigSchemaVersion: this.#toolsConfig.flowConfigSchemaVersion ?? "v1",
+        } : {}),
+      },
+    })
+    this.#startRequestSent = true
   }
 
   #closeConnection(): void {
-    this.#pendingApproval = false
-    this.#socket?.close()
+    for (const { timer } of this.#outstanding.values()) clearTimeout(timer)
+    this.#outstanding.clear()
+    this.#pendingApproval = undefined
+    this.#awaitingApproval = false
+    const socket = this.#socket
     this.#socket = undefined
+    socket?.close()
+    // Also wakes a consumer waiting while a reconnect is backing off.
+    this.#queue?.close()
     this.#queue = undefined
     this.#startRequestSent = false
   }
 
   async #createWorkflow(goal: string): Promise<string> {
-    await this.#loadProjectContext()
+    await this.loadProject()
 
     const body = {
       goal,
-      workflow_definition: WORKFLOW_DEFINITION,
+      workflow_definition: this.#workflowDefinition,
       environment: WORKFLOW_ENVIRONMENT,
       allow_agent_to_request_user: true,
       ...(this.#projectPath ? { project_id: this.#projectPath } : {}),
     }
 
-    const created = await post<WorkflowCreateResponse>(this.#client, "ai/duo_workflows/workflows", body)
+    let created: WorkflowCreateResponse
+    try {
+      created = await post<WorkflowCreateResponse>(this.#client, "ai/duo_workflows/workflows", body)
+    } catch (error) {
+      if (error instanceof GitLabAuthError) {
+        throw new GitLabAuthError(error.status, `GitLab rejected the credentials; run /connect to sign in again (${error.message})`)
+      }
+      if (error instanceof GitLabRateLimitError && error.retryAfterMs !== undefined) {
+        const seconds = Math.ceil(error.retryAfterMs / 1000)
+        throw new GitLabRateLimitError(`GitLab rate limit reached; try again in ${seconds}s (${error.message})`, error.retryAfterMs)
+      }
+      throw error
+    }
     if (created.id === undefined || created.id === null) {
       const details = [created.message, created.error].filter(Boolean).join("; ")
       throw new Error(`failed to create workflow${details ? `: ${details}` : ""}`)
@@ -379,27 +838,51 @@ export class WorkflowSession {
   }
 
   async #loadProjectContext(): Promise<void> {
-    if (this.#projectPath !== undefined) return
-
-    const projectPath = await detectProjectPath(this.#cwd, this.#client.instanceUrl)
-    this.#projectPath = projectPath
-
-    if (!projectPath) return
+    const { instanceUrl } = this.#client
+    const project = await resolveProject(this.#cwd, this.#client)
+    this.#projectPath = project
+
+    if (!project) {
+      this.#warnings.push(
+        `No GitLab project found: no git remote of ${this.#cwd} points at ${instanceUrl}. `
+        + "Set the projectPath provider option (or GITLAB_DUO_PROJECT_PATH); until then "
+        + "workflows run without a project and namespace-scoped models and tokens are unavailable",
+      )
+      return
+    }
 
     try {
-      const project = await fetchProjectDetails(this.#client, projectPath)
-      this.#rootNamespaceId = await resolveRootNamespaceId(this.#client, project.namespaceId)
-    } catch {
+      const details = await fetchProjectDetails(this.#client, project)
+      this.#projectPath = details.projectPath
+      this.#rootNamespaceId = await resolveRootNamespaceId(this.#client, details.namespaceId)
+    } catch (error) {
       this.#rootNamespaceId = undefined
+      if (error instanceof GitLabNotFoundError) {
+        this.#warnings.push(`GitLab project ${project} was not found on ${instanceUrl}, or the token cannot see it`)
+      }
     }
   }
 }
 
 function buildWebSocketUrl(instanceUrl: string, modelId: string): string {
-  const base = new URL(instanceUrl.endsWith("/") ? instanceUrl : `${instanceUrl}/`)
-  const url = new URL("api/v4/ai/duo_workflows/ws", base)
-  if (base.protocol === "https:") url.protocol = "wss:"
-  if (base.protocol === "http:") url.protocol = "ws:"
+  const url = instanceEndpoint(instanceUrl, "api/v4/ai/duo_workflows/ws")
+  if (url.protocol === "https:") url.protocol = "wss:"
+  if (url.protocol === "http:") url.protocol = "ws:"
   if (modelId) url.searchParams.set("user_selected_model_identifier", modelId)
   return url.toString()
 }
+
+function describeClose(code: number, reason: string): string {
+  return reason ? `socket closed (${code}: ${reason})` : `socket closed (${code})`
+}
+
+/** `runReadFile`, `runMCPTool`, ...: the action's payload key. */
+function actionKind(action: WorkflowToolAction): string {
+  return Object.keys(action).find((key) => key !== "requestID") ?? "unknown"
+}
+
+function requestIdOf(frame: unknown): string | undefined {
+  if (!frame || typeof frame !== "object") return undefined
+  const requestId = (frame as { requestID?: unknown }).requestID
+  return typeof requestId === "string" && requestId ? requestId : undefined
+}
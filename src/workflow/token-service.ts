@@ -1,5 +1,5 @@
-import { WORKFLOW_DEFINITION, WORKFLOW_TOKEN_EXPIRY_BUFFER_MS } from "../constants"
-import { type GitLabClientOptions, post } from "../gitlab/client"
+import { WORKFLOW_TOKEN_EXPIRY_BUFFER_MS } from "../constants"
+import { GitLabApiError, type GitLabClientOptions, post } from "../gitlab/client"
 import type { WorkflowDirectAccessResponse } from "./types"
 
 type CachedToken = {
@@ -9,10 +9,12 @@ type CachedToken = {
 
 export class WorkflowTokenService {
   #client: GitLabClientOptions
+  #workflowDefinition: string
   #cache = new Map<string, CachedToken>()
 
-  constructor(client: GitLabClientOptions) {
+  constructor(client: GitLabClientOptions, workflowDefinition: string) {
     this.#client = client
+    this.#workflowDefinition = workflowDefinition
   }
 
   clear(): void {
@@ -30,21 +32,23 @@ export class WorkflowTokenService {
         "ai/duo_workflows/direct_access",
         rootNamespaceId
           ? {
-              workflow_definition: WORKFLOW_DEFINITION,
+              workflow_definition: this.#workflowDefinition,
               root_namespace_id: rootNamespaceId,
             }
           : {
-              workflow_definition: WORKFLOW_DEFINITION,
+              workflow_definition: this.#workflowDefinition,
             },
+        { idempotent: true },
       )
 
       const expiresAt = readExpiry(value)
       this.#cache.set(key, { value, expiresAt })
       return value
-    } catch {
+    } catch (error) {
       // Direct-access endpoint unavailable or unauthorized.
       // Return null so the caller can proceed without extended metadata.
-      return null
+      if (error instanceof GitLabApiError) return null
+      throw error
     }
   }
 }
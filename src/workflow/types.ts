@@ -71,7 +71,7 @@ export type WorkflowCheckpointAction = {
   newCheckpoint: {
     status: string
     checkpoint: string
-    goal: string
+    goal?: string
     errors?: string[]
   }
 }
@@ -126,6 +126,11 @@ export function isToolApproval(status: string): boolean {
   return status === WORKFLOW_STATUS.TOOL_CALL_APPROVAL_REQUIRED
 }
 
+/** DWS drafted a plan and waits for the user to approve or reject it. */
+export function isPlanApproval(status: string): boolean {
+  return status === WORKFLOW_STATUS.PLAN_APPROVAL_REQUIRED
+}
+
 /** True when the queue should close (terminal or turn boundary). */
 export function isTurnComplete(status: string): boolean {
   return isTerminal(status) || isTurnBoundary(status)
@@ -145,9 +150,18 @@ export type UiChatLogEntry = {
   tool_info?: ToolInfo | null
 }
 
+export type PlanStep = {
+  id?: string
+  description: string
+  status?: string
+}
+
 export type WorkflowCheckpointPayload = {
   channel_values?: {
     ui_chat_log?: UiChatLogEntry[]
+    plan?: {
+      steps?: PlanStep[]
+    }
   }
 }
 
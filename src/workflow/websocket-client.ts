@@ -4,31 +4,50 @@ import {
   WORKFLOW_HEARTBEAT_INTERVAL_MS,
   WORKFLOW_KEEPALIVE_INTERVAL_MS,
 } from "../constants"
+import { connectionOptions, type ConnectionOptions, type Transport } from "../gitlab/transport"
+import { decodeWorkflowAction } from "./protocol"
+import type { WorkflowRecorder } from "./recording"
 import type { ClientEvent, WorkflowAction } from "./types"
 
-type SocketCallbacks = {
+/** Bun's WebSocket accepts `proxy` and `tls` on top of the `ws` client options. */
+type BunClientOptions = WebSocket.ClientOptions & Pick<ConnectionOptions, "tls"> & { proxy?: string }
+
+export type SocketCallbacks = {
   action: (action: WorkflowAction) => void
   error: (error: Error) => void
   close: (code: number, reason: string) => void
 }
 
+/** What WorkflowSession needs from a socket; also implemented by replays. */
+export type WorkflowSocket = Pick<WorkflowWebSocketClient, "connect" | "send" | "close" | "isOpen">
+
 export class WorkflowWebSocketClient {
   #socket: WebSocket | null = null
   #heartbeat: NodeJS.Timeout | undefined
   #keepalive: NodeJS.Timeout | undefined
   #callbacks: SocketCallbacks
+  #recorder: WorkflowRecorder | undefined
+  #transport: Transport | undefined
 
-  constructor(callbacks: SocketCallbacks) {
+  constructor(callbacks: SocketCallbacks, recorder?: WorkflowRecorder, transport?: Transport) {
     this.#callbacks = callbacks
+    this.#recorder = recorder
+    this.#transport = transport
   }
 
   async connect(url: string, headers: Record<string, string>): Promise<void> {
-    const socket = new WebSocket(url, { headers })
+    this.#recorder?.connect(url, headers)
+    // Bun's WebSocket takes the same `proxy` and `tls` options as its fetch;
+    // it has no direct-connection flag, so a bypassed proxy is just left out.
+    const { proxy, tls } = connectionOptions(this.#transport, url)
+    const options: BunClientOptions = { headers, ...(proxy ? { proxy } : {}), ...(tls ? { tls } : {}) }
+    const socket = new WebSocket(url, options)
     this.#socket = socket
 
     await new Promise<void>((resolve, reject) => {
       const timeout = setTimeout(() => {
         cleanup()
+        abandon()
         socket.close(1000)
         reject(new Error(`WebSocket connection timeout after ${WORKFLOW_CONNECT_TIMEOUT_MS}ms`))
       }, WORKFLOW_CONNECT_TIMEOUT_MS)
@@ -39,6 +58,12 @@ export class WorkflowWebSocketClient {
         socket.off("error", onError)
       }
 
+      // A failed socket may still emit errors (Bun reports a refused
+      // connection twice); without a listener they would crash the process.
+      const abandon = () => {
+        socket.on("error", () => {})
+      }
+
       const onOpen = () => {
         cleanup()
         resolve()
@@ -46,6 +71,7 @@ export class WorkflowWebSocketClient {
 
       const onError = (error: Error) => {
         cleanup()
+        abandon()
         reject(error)
       }
 
@@ -57,8 +83,8 @@ export class WorkflowWebSocketClient {
       try {
         const payload = decodeSocketMessage(data)
         if (!payload) return
-        const parsed = JSON.parse(payload) as WorkflowAction
-        this.#callbacks.action(parsed)
+        this.#recorder?.inbound(payload)
+        this.#callbacks.action(decodeWorkflowAction(payload))
       } catch (error) {
         const next = error instanceof Error ? error : new Error(String(error))
         this.#callbacks.error(next)
@@ -71,7 +97,9 @@ export class WorkflowWebSocketClient {
 
     socket.on("close", (code: number, reason: Buffer) => {
       this.#stopIntervals()
-      this.#callbacks.close(code, reason?.toString("utf8") ?? "")
+      const text = reason?.toString("utf8") ?? ""
+      this.#recorder?.close(code, text)
+      this.#callbacks.close(code, text)
     })
 
     this.#heartbeat = setInterval(() => {
@@ -84,15 +112,24 @@ export class WorkflowWebSocketClient {
     }, WORKFLOW_KEEPALIVE_INTERVAL_MS)
   }
 
+  /** False once the socket started closing (including after a transport error). */
+  get isOpen(): boolean {
+    return this.#socket?.readyState === WebSocket.OPEN
+  }
+
   send(event: ClientEvent): boolean {
     if (!this.#socket || this.#socket.readyState !== WebSocket.OPEN) return false
     this.#socket.send(JSON.stringify(event))
+    this.#recorder?.outbound(event)
     return true
   }
 
   close(): void {
     this.#stopIntervals()
     if (!this.#socket) return
+    // Record the client-side close now; the socket's close event is ignored.
+    this.#recorder?.close(1000, "closed by client")
+    this.#recorder = undefined
     this.#socket.close(1000)
     this.#socket = null
   }
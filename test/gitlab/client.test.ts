@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, expect, test } from "bun:test"
+import {
+  GitLabAuthError,
+  type GitLabClientOptions,
+  GitLabNotFoundError,
+  GitLabRateLimitError,
+  GitLabServerError,
+  get,
+  graphql,
+  post,
+} from "../../src/gitlab/client"
+import { MockDws } from "../support/mock-dws"
+
+let dws: MockDws
+let client: GitLabClientOptions
+
+beforeEach(async () => {
+  dws = await MockDws.start()
+  client = { instanceUrl: dws.url, token: "test-token" }
+})
+
+afterEach(async () => {
+  await dws.stop()
+})
+
+const attempts = (path: string) => dws.requests.filter((r) => r.path === path).length
+
+test("retries idempotent requests on transient statuses, waiting as Retry-After asks", async () => {
+  dws.stub("GET /api/v4/user", { message: "busy" }, { status: 503, headers: { "retry-after": "0" }, times: 2 })
+  dws.stub("GET /api/v4/user", { username: "alice" })
+
+  expect(await get<{ username: string }>(client, "user")).toEqual({ username: "alice" })
+  expect(attempts("/api/v4/user")).toBe(3)
+})
+
+test("gives up after the last attempt with a server error", async () => {
+  dws.stub("POST /api/graphql", { message: "boom" }, { status: 502, headers: { "retry-after": "0" } })
+
+  const error = await graphql(client, "query { currentUser { id } }", {}).catch((e: unknown) => e)
+
+  expect(error).toBeInstanceOf(GitLabServerError)
+  expect(error).toMatchObject({ status: 502, name: "GitLabServerError" })
+  expect(attempts("/api/graphql")).toBe(3)
+})
+
+test("does not retry non-idempotent requests, except on 429", async () => {
+  dws.stub("POST /api/v4/things", { message: "oops" }, { status: 500 })
+  await expect(post(client, "things", {})).rejects.toBeInstanceOf(GitLabServerError)
+  expect(attempts("/api/v4/things")).toBe(1)
+
+  dws.stub("POST /api/v4/limited", { message: "slow down" }, { status: 429, headers: { "retry-after": "0" }, times: 1 })
+  dws.stub("POST /api/v4/limited", { id: 1 }, { status: 201 })
+  expect(await post(client, "limited", {})).toEqual({ id: 1 })
+  expect(attempts("/api/v4/limited")).toBe(2)
+})
+
+test("surfaces rate limits it cannot wait out, with GitLab's hint", async () => {
+  const reset = Math.floor(Date.now() / 1000) + 3600
+  dws.stub("GET /api/v4/projects", { message: "429 Too Many Requests" }, {
+    status: 429,
+    headers: { "ratelimit-remaining": "0", "ratelimit-reset": String(reset) },
+  })
+
+  const error = await get(client, "projects").catch((e: unknown) => e)
+
+  expect(error).toBeInstanceOf(GitLabRateLimitError)
+  expect((error as GitLabRateLimitError).retryAfterMs).toBeGreaterThan(3_500_000)
+  expect(attempts("/api/v4/projects")).toBe(1)
+})
+
+test("classifies auth and not-found responses", async () => {
+  dws.stub("GET /api/v4/secret", { message: "401 Unauthorized" }, { status: 401 })
+
+  await expect(get(client, "secret")).rejects.toBeInstanceOf(GitLabAuthError)
+  await expect(get(client, "missing")).rejects.toBeInstanceOf(GitLabNotFoundError)
+  expect(attempts("/api/v4/secret")).toBe(1)
+})
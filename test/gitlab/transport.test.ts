@@ -0,0 +1,110 @@
+import http from "node:http"
+import net from "node:net"
+import type { AddressInfo } from "node:net"
+import { afterEach, beforeEach, expect, test } from "bun:test"
+import { get } from "../../src/gitlab/client"
+import { resolveTransport } from "../../src/gitlab/transport"
+import { WorkflowWebSocketClient } from "../../src/workflow/websocket-client"
+import { MockDws } from "../support/mock-dws"
+
+let dws: MockDws
+let proxy: http.Server
+let proxyUrl: string
+/** What went through the proxy: `GET <absolute url>` or `CONNECT <host:port>`. */
+let proxied: string[]
+
+beforeEach(async () => {
+  dws = await MockDws.start()
+  proxied = []
+  proxy = http.createServer((req, res) => {
+    proxied.push(`${req.method} ${req.url}`)
+    const target = new URL(req.url ?? "")
+    const upstream = http.request(target, { method: req.method, headers: req.headers }, (response) => {
+      res.writeHead(response.statusCode ?? 502, response.headers)
+      response.pipe(res)
+    })
+    req.pipe(upstream)
+  })
+  proxy.on("connect", (req: http.IncomingMessage, socket: net.Socket, head: Buffer) => {
+    proxied.push(`CONNECT ${req.url}`)
+    const [host, port] = (req.url ?? "").split(":")
+    const upstream = net.connect(Number(port), host, () => {
+      socket.write("HTTP/1.1 200 Connection Established\r\n\r\n")
+      upstream.write(head)
+      upstream.pipe(socket)
+      socket.pipe(upstream)
+    })
+    upstream.on("error", () => socket.destroy())
+    socket.on("error", () => upstream.destroy())
+  })
+  await new Promise<void>((resolve) => proxy.listen(0, "127.0.0.1", resolve))
+  proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`
+})
+
+afterEach(async () => {
+  await dws.stop()
+  proxy.closeAllConnections()
+  await new Promise<void>((resolve) => proxy.close(() => resolve()))
+})
+
+test("sends REST requests through the configured proxy unless NO_PROXY matches", async () => {
+  dws.stub("GET /api/v4/user", { username: "alice" })
+  const transport = resolveTransport({ proxy: proxyUrl }, {})
+  await get(client(transport), "user")
+  expect(proxied).toEqual([`GET ${dws.url}/api/v4/user`])
+
+  const bypassed = resolveTransport({ noProxy: "localhost, .example.com, 127.0.0.1" }, { HTTP_PROXY: proxyUrl })
+  await get(client(bypassed), "user")
+  expect(proxied).toHaveLength(1)
+  expect(dws.requests.filter((r) => r.path === "/api/v4/user")).toHaveLength(2)
+})
+
+test("connects directly to a bypassed host even when the proxy variables are set", async () => {
+  dws.stub("GET /api/v4/user", { username: "alice" })
+  const saved = process.env.HTTP_PROXY
+  process.env.HTTP_PROXY = proxyUrl
+  try {
+    // Without `proxy: false` Bun would pick HTTP_PROXY up from the environment on its own.
+    await fetch(`${dws.url}/api/v4/user`)
+    expect(proxied).toEqual([`GET ${dws.url}/api/v4/user`])
+
+    await get(client(resolveTransport({ noProxy: "127.0.0.1" }, { HTTP_PROXY: proxyUrl })), "user")
+    expect(proxied).toHaveLength(1)
+    expect(dws.requests.filter((r) => r.path === "/api/v4/user")).toHaveLength(2)
+  } finally {
+    if (saved === undefined) delete process.env.HTTP_PROXY
+    else process.env.HTTP_PROXY = saved
+  }
+})
+
+test("tunnels the workflow WebSocket handshake through the proxy", async () => {
+  const socket = new WorkflowWebSocketClient({ action: () => {}, error: () => {}, close: () => {} }, undefined,
+    resolveTransport({}, { HTTP_PROXY: proxyUrl }))
+
+  await socket.connect(`${dws.url.replace(/^http/, "ws")}/api/v4/ai/duo_workflows/ws`, { authorization: "Bearer test-token" })
+  socket.close()
+
+  expect(proxied).toEqual([`CONNECT ${dws.url.replace(/^http:\/\//, "")}`])
+  expect(dws.connections[0]?.headers.authorization).toBe("Bearer test-token")
+})
+
+test("rejects a client certificate without its key and unreadable CA bundles", () => {
+  expect(() => resolveTransport({ certFile: "client.pem" }, {})).toThrow("certFile is set but keyFile is not")
+  expect(() => resolveTransport({}, { GITLAB_DUO_CA_FILE: "/nonexistent/ca.pem" })).toThrow("Cannot read CA bundle /nonexistent/ca.pem")
+  expect(resolveTransport({}, {})).toBeUndefined()
+})
+
+test("refuses proxy and TLS settings outside Bun, where they would be ignored", () => {
+  expect(() => resolveTransport({ proxy: proxyUrl }, {}, "node")).toThrow("Proxy and TLS settings need OpenCode's Bun runtime")
+  expect(() => resolveTransport({}, { GITLAB_DUO_CA_FILE: "/etc/ssl/corp-ca.pem" }, "node")).toThrow("Proxy and TLS settings need OpenCode's Bun runtime")
+  expect(resolveTransport({}, {}, "node")).toBeUndefined()
+})
+
+test("leaves the generic proxy and CA variables to Node instead of refusing them", () => {
+  const env = { HTTPS_PROXY: proxyUrl, http_proxy: proxyUrl, NO_PROXY: "localhost", NODE_EXTRA_CA_CERTS: "/nonexistent/ca.pem" }
+  expect(resolveTransport({}, env, "node")).toBeUndefined()
+})
+
+function client(transport: ReturnType<typeof resolveTransport>) {
+  return { instanceUrl: dws.url, token: "test-token", ...(transport ? { transport } : {}) }
+}
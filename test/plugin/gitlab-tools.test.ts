@@ -0,0 +1,159 @@
+import { afterEach, beforeEach, expect, test } from "bun:test"
+import { execFileSync } from "node:child_process"
+import type { ToolContext, ToolDefinition } from "@opencode-ai/plugin"
+import { createGitLabTools } from "../../src/plugin/gitlab-tools"
+import { createTempRepo, type TempRepo } from "../support/harness"
+import { MockDws } from "../support/mock-dws"
+
+const PROJECT = "/api/v4/projects/group%2Fproject"
+
+let dws: MockDws
+let repo: TempRepo
+let tools: Record<string, ToolDefinition>
+let asked: string[]
+
+beforeEach(async () => {
+  dws = await MockDws.start()
+  repo = createTempRepo(dws.url)
+  tools = createGitLabTools(() => ({ instanceUrl: dws.url, token: "test-token" }))
+  asked = []
+})
+
+afterEach(async () => {
+  await dws.stop()
+  repo.cleanup()
+})
+
+function run(name: string, args: Record<string, unknown>): Promise<string> {
+  const ctx = {
+    sessionID: "s",
+    messageID: "m",
+    agent: "build",
+    directory: repo.dir,
+    worktree: repo.dir,
+    abort: new AbortController().signal,
+    metadata: () => {},
+    ask: async (input: { permission: string; patterns: string[] }) => {
+      asked.push(`${input.permission} ${input.patterns.join(",")}`)
+    },
+  } satisfies ToolContext
+  return tools[name].execute(args as never, ctx)
+}
+
+test("gitlab_issue_get reads the issue of the detected project", async () => {
+  dws.stub(`GET ${PROJECT}/issues/7`, {
+    iid: 7,
+    title: "Crash on start",
+    state: "opened",
+    description: "Steps to reproduce...",
+    web_url: "https://gitlab.example/group/project/-/issues/7",
+    author: { username: "alice" },
+    labels: ["bug", "p1"],
+    created_at: "2024-01-01T00:00:00Z",
+    updated_at: "2024-01-02T00:00:00Z",
+  })
+
+  const output = await run("gitlab_issue_get", { iid: 7 })
+
+  expect(output).toContain("#7 Crash on start")
+  expect(output).toContain("Labels: bug, p1")
+  expect(output).toContain("Steps to reproduce...")
+  expect(asked).toEqual(["gitlab_issue_get group/project"])
+})
+
+test("gitlab_issue_search forwards filters and points at the next page", async () => {
+  dws.stub(`GET ${PROJECT}/issues`, [
+    { iid: 1, title: "First", state: "opened", labels: [], web_url: "u1" },
+    { iid: 2, title: "Second", state: "opened", labels: ["bug"], web_url: "u2" },
+  ], { headers: { "x-next-page": "2", "x-total": "5" } })
+
+  const output = await run("gitlab_issue_search", { search: "crash", labels: ["bug"], per_page: 2 })
+
+  expect(output).toBe("#1 [opened] First — u1\n#2 [opened] Second (bug) — u2\n\n[more results of 5 — request page 2]")
+  expect(dws.requests.at(-1)?.query).toMatchObject({ search: "crash", labels: "bug", state: "opened", per_page: "2" })
+})
+
+test("gitlab_mr_diff renders unified diffs and truncates oversized output", async () => {
+  dws.stub(`GET ${PROJECT}/merge_requests/3/diffs`, [
+    { old_path: "a.ts", new_path: "a.ts", diff: "@@ -1 +1 @@\n-old\n+new\n", new_file: false, renamed_file: false, deleted_file: false },
+    { old_path: "big.txt", new_path: "big.txt", diff: "+".repeat(40_000), new_file: true, renamed_file: false, deleted_file: false },
+  ])
+
+  const output = await run("gitlab_mr_diff", { iid: 3 })
+
+  expect(output.startsWith("diff --git a/a.ts b/a.ts\n@@ -1 +1 @@\n-old\n+new\n")).toBe(true)
+  expect(output).toContain("diff --git a/big.txt b/big.txt (new)")
+  expect(output).toMatch(/\[truncated \d+ characters\]$/)
+})
+
+test("gitlab_mr_discussions skips system notes and can filter to unresolved threads", async () => {
+  dws.stub(`GET ${PROJECT}/merge_requests/3/discussions`, [
+    { id: "a", notes: [{ id: 1, body: "added 1 commit", system: true, created_at: "" }] },
+    {
+      id: "b",
+      notes: [
+        { id: 2, body: "Rename this", author: { username: "bob" }, system: false, resolvable: true, resolved: false, created_at: "", position: { new_path: "a.ts", new_line: 4 } },
+        { id: 3, body: "Will do", author: { username: "alice" }, system: false, resolvable: true, resolved: false, created_at: "" },
+      ],
+    },
+    { id: "c", notes: [{ id: 4, body: "LGTM", author: { username: "carol" }, system: false, resolvable: true, resolved: true, created_at: "" }] },
+  ])
+
+  const output = await run("gitlab_mr_discussions", { iid: 3, unresolved_only: true })
+
+  expect(output).toBe("Thread on a.ts:4 [unresolved]:\n- @bob: Rename this\n- @alice: Will do")
+})
+
+test("gitlab_pipeline_failures inspects the latest pipeline of the checked-out branch", async () => {
+  const git = (...args: string[]) => execFileSync("git", ["-C", repo.dir, "-c", "user.name=t", "-c", "user.email=t@t", ...args])
+  git("commit", "-q", "--allow-empty", "-m", "init")
+  git("checkout", "-q", "-b", "feature/login")
+
+  dws.stub(`GET ${PROJECT}/pipelines`, [
+    { id: 41, status: "failed", ref: "feature/login", sha: "0123456789abcdef", web_url: "https://ci/41", created_at: "", updated_at: "" },
+  ])
+  dws.stub(`GET ${PROJECT}/pipelines/41/jobs`, [
+    { id: 900, name: "test:unit", stage: "test", status: "failed", failure_reason: "script_failure", allow_failure: false, web_url: "" },
+    { id: 901, name: "lint", stage: "test", status: "failed", allow_failure: true, web_url: "" },
+  ])
+
+  const output = await run("gitlab_pipeline_failures", {})
+
+  expect(dws.requests.find((r) => r.path === `${PROJECT}/pipelines`)?.query).toMatchObject({ ref: "feature/login" })
+  expect(output).toBe([
+    "Pipeline #41 on feature/login (01234567): failed",
+    "URL: https://ci/41",
+    "",
+    "Failed jobs:",
+    "- job 900 test:unit (stage test): script_failure",
+    "- job 901 lint (stage test) [allowed to fail]",
+  ].join("\n"))
+})
+
+test("gitlab_job_log returns the cleaned tail of the trace", async () => {
+  const trace = [
+    "\x1b[0KRunning with gitlab-runner 17.0\x1b[0;m",
+    "section_start:1700000000:step_script\r\x1b[0K\x1b[32;1m$ npm test\x1b[0;m",
+    "Downloading 10%\rDownloading 100%",
+    ...Array.from({ length: 5 }, (_, i) => `line ${i}`),
+    "\x1b[31;1mERROR: Job failed: exit code 1\x1b[0;m",
+    "",
+  ].join("\n")
+  dws.stub(`GET ${PROJECT}/jobs/900/trace`, trace)
+
+  expect(await run("gitlab_job_log", { job_id: 900 })).toBe([
+    "Running with gitlab-runner 17.0",
+    "$ npm test",
+    "Downloading 100%",
+    "line 0", "line 1", "line 2", "line 3", "line 4",
+    "ERROR: Job failed: exit code 1",
+  ].join("\n"))
+  expect(await run("gitlab_job_log", { job_id: 900, lines: 2 })).toBe(
+    "[showing the last 2 of 9 lines]\nline 4\nERROR: Job failed: exit code 1",
+  )
+})
+
+test("fails clearly when no project can be resolved", async () => {
+  tools = createGitLabTools(() => ({ instanceUrl: "https://elsewhere.example.com", token: "t" }))
+  await expect(run("gitlab_mr_get", { iid: 1 })).rejects.toThrow("pass `project` explicitly")
+})
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, expect, test } from "bun:test"
+import { execFileSync } from "node:child_process"
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import { listDirectory } from "../../src/plugin/list-dir"
+
+let dir: string
+
+beforeEach(() => {
+  dir = mkdtempSync(path.join(os.tmpdir(), "duo-list-dir-"))
+  execFileSync("git", ["init", "-q", dir])
+  writeFileSync(path.join(dir, ".gitignore"), "dist/\n*.log\n")
+  writeFileSync(path.join(dir, "README.md"), "# Readme\n")
+  writeFileSync(path.join(dir, "debug.log"), "noise")
+  mkdirSync(path.join(dir, "src", "lib"), { recursive: true })
+  writeFileSync(path.join(dir, "src", "index.ts"), "x".repeat(2048))
+  writeFileSync(path.join(dir, "src", "lib", "util.ts"), "")
+  mkdirSync(path.join(dir, "dist"))
+  writeFileSync(path.join(dir, "dist", "index.js"), "")
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+test("lists one level with directory markers and sizes, skipping ignored paths", async () => {
+  expect(await listDirectory(dir)).toBe(["src/", ".gitignore (12 B)", "README.md (9 B)"].join("\n"))
+})
+
+test("descends to the requested depth", async () => {
+  expect(await listDirectory(dir, { depth: 3 })).toBe([
+    "src/",
+    "  lib/",
+    "    util.ts (0 B)",
+    "  index.ts (2.0 KB)",
+    ".gitignore (12 B)",
+    "README.md (9 B)",
+  ].join("\n"))
+})
+
+test("stops at the entry limit and reports what was left out", async () => {
+  expect(await listDirectory(dir, { depth: 3, limit: 2 })).toBe([
+    "src/",
+    "  lib/",
+    "... 4 more entries not shown (limit 2)",
+  ].join("\n"))
+})
+
+test("rejects paths that are not directories", async () => {
+  await expect(listDirectory(path.join(dir, "README.md"))).rejects.toThrow("Not a directory")
+})
@@ -0,0 +1,105 @@
+import { execFileSync } from "node:child_process"
+import { mkdtempSync, rmSync } from "node:fs"
+import os from "node:os"
+import path from "node:path"
+import type {
+  LanguageModelV2CallOptions,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+} from "@ai-sdk/provider"
+
+export type TempRepo = {
+  dir: string
+  cleanup: () => void
+}
+
+/**
+ * A throwaway git repo whose origin points at the mock instance, so project
+ * detection resolves `group/project` against it. Also isolates the plugin's
+ * cache files via XDG_CACHE_HOME.
+ */
+export function createTempRepo(instanceUrl: string): TempRepo {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "duo-e2e-"))
+  execFileSync("git", ["init", "-q", dir])
+  execFileSync("git", ["-C", dir, "remote", "add", "origin", `${instanceUrl}/group/project.git`])
+
+  const previousCache = process.env.XDG_CACHE_HOME
+  process.env.XDG_CACHE_HOME = path.join(dir, ".cache")
+
+  return {
+    dir,
+    cleanup: () => {
+      if (previousCache === undefined) delete process.env.XDG_CACHE_HOME
+      else process.env.XDG_CACHE_HOME = previousCache
+      rmSync(dir, { recursive: true, force: true })
+    },
+  }
+}
+
+export function userMessage(text: string): LanguageModelV2Prompt[number] {
+  return { role: "user", content: [{ type: "text", text }] }
+}
+
+export function toolRound(
+  calls: Array<{ toolCallId: string; toolName: string; input: string; output: string }>,
+): LanguageModelV2Prompt {
+  return [
+    {
+      role: "assistant",
+      content: calls.map((c) => ({
+        type: "tool-call" as const,
+        toolCallId: c.toolCallId,
+        toolName: c.toolName,
+        input: JSON.parse(c.input),
+      })),
+    },
+    {
+      role: "tool",
+      content: calls.map((c) => ({
+        type: "tool-result" as const,
+        toolCallId: c.toolCallId,
+        toolName: c.toolName,
+        output: { type: "text" as const, value: c.output },
+      })),
+    },
+  ]
+}
+
+export function callOptions(
+  sessionID: string,
+  prompt: LanguageModelV2Prompt,
+  extra: Partial<LanguageModelV2CallOptions> = {},
+): LanguageModelV2CallOptions {
+  return {
+    prompt: [{ role: "system", content: "You are OpenCode, the best coding agent." }, ...prompt],
+    providerOptions: { gitlab: { workflowSessionID: sessionID } },
+    ...extra,
+  }
+}
+
+export async function collect(stream: ReadableStream<LanguageModelV2StreamPart>): Promise<LanguageModelV2StreamPart[]> {
+  const parts: LanguageModelV2StreamPart[] = []
+  const reader = stream.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return parts
+    parts.push(value)
+  }
+}
+
+export function textOf(parts: LanguageModelV2StreamPart[]): string {
+  return parts
+    .filter((p): p is Extract<LanguageModelV2StreamPart, { type: "text-delta" }> => p.type === "text-delta")
+    .map((p) => p.delta)
+    .join("")
+}
+
+export function toolCallsOf(parts: LanguageModelV2StreamPart[]) {
+  return parts.filter((p): p is Extract<LanguageModelV2StreamPart, { type: "tool-call" }> => p.type === "tool-call")
+}
+
+export function finishOf(parts: LanguageModelV2StreamPart[]) {
+  const finish = parts.find((p): p is Extract<LanguageModelV2StreamPart, { type: "finish" }> => p.type === "finish")
+  if (!finish) throw new Error("stream ended without a finish part")
+  return finish
+}
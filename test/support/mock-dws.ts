@@ -0,0 +1,285 @@
+/**
+ * In-process stand-in for GitLab's REST/GraphQL API and the Duo Workflow
+ * Service WebSocket, so `WorkflowSession` and `DuoWorkflowModel` can be
+ * exercised end to end without a live instance.
+ *
+ * Each WebSocket connection is driven by the next scripted scenario: an async
+ * function that awaits client events and sends checkpoints / tool actions.
+ */
+
+import { randomUUID } from "node:crypto"
+import http from "node:http"
+import type { AddressInfo } from "node:net"
+import { WebSocketServer, type WebSocket } from "ws"
+import type {
+  ClientEvent,
+  StartWorkflowRequest,
+  UiChatLogEntry,
+  WorkflowToolAction,
+} from "../../src/workflow/types"
+
+type ActionResponse = Extract<ClientEvent, { actionResponse: unknown }>["actionResponse"]
+
+export type Scenario = (connection: MockDwsConnection) => Promise<void>
+
+export type RecordedRequest = {
+  method: string
+  path: string
+  query: Record<string, string>
+  headers: http.IncomingHttpHeaders
+  body: unknown
+}
+
+type MockDwsOptions = {
+  projectId?: number
+  namespaceId?: number
+  models?: Array<{ name: string; ref: string }>
+  /** Serve everything under this relative URL root (e.g. `/gitlab`); other paths get 404s. */
+  basePath?: string
+}
+
+export class MockDws {
+  readonly requests: RecordedRequest[] = []
+  readonly connections: MockDwsConnection[] = []
+  #server: http.Server
+  #wss: WebSocketServer
+  #scenarios: Scenario[] = []
+  #running: Promise<void>[] = []
+  #nextWorkflowId = 1
+  #stubs = new Map<string, Array<{ status: number; payload: unknown; headers: Record<string, string>; times?: number }>>()
+  #options: Required<MockDwsOptions>
+
+  private constructor(options: MockDwsOptions) {
+    this.#options = {
+      projectId: options.projectId ?? 1000,
+      namespaceId: options.namespaceId ?? 10,
+      models: options.models ?? [{ name: "Claude Sonnet 4.5", ref: "duo-chat-sonnet-4-5" }],
+      basePath: options.basePath ?? "",
+    }
+    this.#server = http.createServer((req, res) => void this.#handleHttp(req, res))
+    this.#wss = new WebSocketServer({ noServer: true })
+    this.#server.on("upgrade", (req, socket, head) => {
+      const url = this.#routeUrl(req)
+      if (url?.pathname !== "/api/v4/ai/duo_workflows/ws") {
+        socket.destroy()
+        return
+      }
+      this.#wss.handleUpgrade(req, socket, head, (ws) => this.#handleSocket(ws, req, url))
+    })
+  }
+
+  static async start(options: MockDwsOptions = {}): Promise<MockDws> {
+    const mock = new MockDws(options)
+    await new Promise<void>((resolve) => mock.#server.listen(0, "127.0.0.1", resolve))
+    return mock
+  }
+
+  get url(): string {
+    const { port } = this.#server.address() as AddressInfo
+    return `http://127.0.0.1:${port}${this.#options.basePath}`
+  }
+
+  /** Queue scenarios; each one drives the next WebSocket connection. */
+  script(...scenarios: Scenario[]): void {
+    this.#scenarios.push(...scenarios)
+  }
+
+  /**
+   * Serve a canned response for `"<METHOD> <path>"` (path without the query
+   * string), taking precedence over the built-in routes. Strings are sent as
+   * plain text, anything else as JSON. A stub with `times` is used up after
+   * that many requests, uncovering the next stub for the route.
+   */
+  stub(
+    route: string,
+    payload: unknown,
+    options: { status?: number; headers?: Record<string, string>; times?: number } = {},
+  ): void {
+    const stubs = this.#stubs.get(route) ?? []
+    stubs.push({ status: options.status ?? 200, payload, headers: options.headers ?? {}, times: options.times })
+    this.#stubs.set(route, stubs)
+  }
+
+  /** Resolves once every started scenario has finished (rejects if one failed). */
+  async settled(): Promise<void> {
+    await Promise.all(this.#running)
+  }
+
+  async stop(): Promise<void> {
+    for (const connection of this.connections) connection.close()
+    await new Promise<void>((resolve) => this.#wss.close(() => resolve()))
+    await new Promise<void>((resolve) => this.#server.close(() => resolve()))
+  }
+
+  #handleSocket(ws: WebSocket, req: http.IncomingMessage, url: URL): void {
+    const connection = new MockDwsConnection(ws, req.headers, url)
+    this.connections.push(connection)
+    const scenario = this.#scenarios.shift() ?? finishImmediately
+    this.#running.push(scenario(connection))
+  }
+
+  /** The request URL relative to `basePath`; undefined outside of it. */
+  #routeUrl(req: http.IncomingMessage): URL | undefined {
+    const url = new URL(req.url ?? "/", "http://localhost")
+    const { basePath } = this.#options
+    if (!basePath) return url
+    if (!url.pathname.startsWith(`${basePath}/`)) return undefined
+    url.pathname = url.pathname.slice(basePath.length)
+    return url
+  }
+
+  async #handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const routed = this.#routeUrl(req)
+    const url = routed ?? new URL(req.url ?? "/", "http://localhost")
+    const raw = await readBody(req)
+    const body = raw ? JSON.parse(raw) : undefined
+    this.requests.push({
+      method: req.method ?? "GET",
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      headers: req.headers,
+      body,
+    })
+
+    if (!routed) return sendJson(res, 404, { message: "404 Not Found" })
+
+    const route = `${req.method} ${url.pathname}`
+    const stubs = this.#stubs.get(route) ?? []
+    const stub = stubs[0]
+    if (stub?.times !== undefined && --stub.times <= 0) stubs.shift()
+    if (stub && typeof stub.payload === "string") {
+      res.writeHead(stub.status, { "content-type": "text/plain", ...stub.headers })
+      res.end(stub.payload)
+      return
+    }
+    if (stub) return sendJson(res, stub.status, stub.payload, stub.headers)
+
+    if (route === "POST /api/v4/ai/duo_workflows/workflows") {
+      return sendJson(res, 201, { id: this.#nextWorkflowId++ })
+    }
+    if (route === "POST /api/v4/ai/duo_workflows/direct_access") {
+      return sendJson(res, 201, {
+        workflow_metadata: { extended_logging: false },
+        duo_workflow_service: { token_expires_at: Math.floor(Date.now() / 1000) + 3600 },
+        gitlab_rails: { token_expires_at: new Date(Date.now() + 3600_000).toISOString() },
+      })
+    }
+    if (req.method === "GET" && url.pathname.startsWith("/api/v4/projects/")) {
+      return sendJson(res, 200, { id: this.#options.projectId, namespace: { id: this.#options.namespaceId } })
+    }
+    if (req.method === "GET" && url.pathname.startsWith("/api/v4/namespaces/")) {
+      const id = Number(url.pathname.split("/").pop())
+      return sendJson(res, 200, { id, parent_id: null })
+    }
+    if (route === "POST /api/graphql") {
+      const [defaultModel, ...rest] = this.#options.models
+      return sendJson(res, 200, {
+        data: {
+          aiChatAvailableModels: {
+            defaultModel: defaultModel ?? null,
+            selectableModels: rest,
+            pinnedModel: null,
+          },
+        },
+      })
+    }
+
+    sendJson(res, 404, { message: "404 Not Found" })
+  }
+}
+
+export class MockDwsConnection {
+  readonly headers: http.IncomingHttpHeaders
+  readonly url: URL
+  readonly received: ClientEvent[] = []
+  readonly closed: Promise<void>
+  #ws: WebSocket
+  #inbox: ClientEvent[] = []
+  #waiters: Array<{ match: (event: ClientEvent) => boolean; resolve: (event: ClientEvent) => void }> = []
+
+  constructor(ws: WebSocket, headers: http.IncomingHttpHeaders, url: URL) {
+    this.#ws = ws
+    this.headers = headers
+    this.url = url
+    this.closed = new Promise((resolve) => ws.once("close", () => resolve()))
+    // Dropped connections are part of the scenarios; don't crash on them.
+    ws.on("error", () => {})
+    ws.on("message", (data) => {
+      const event = JSON.parse(String(data)) as ClientEvent
+      if ("heartbeat" in event) return
+      this.received.push(event)
+      const index = this.#waiters.findIndex((w) => w.match(event))
+      if (index === -1) {
+        this.#inbox.push(event)
+        return
+      }
+      const [waiter] = this.#waiters.splice(index, 1)
+      waiter.resolve(event)
+    })
+  }
+
+  /** Next not-yet-awaited client event that matches. */
+  nextEvent(match: (event: ClientEvent) => boolean = () => true): Promise<ClientEvent> {
+    const index = this.#inbox.findIndex(match)
+    if (index !== -1) return Promise.resolve(this.#inbox.splice(index, 1)[0])
+    return new Promise((resolve) => this.#waiters.push({ match, resolve }))
+  }
+
+  async startRequest(): Promise<StartWorkflowRequest> {
+    const event = await this.nextEvent((e) => "startRequest" in e)
+    return (event as { startRequest: StartWorkflowRequest }).startRequest
+  }
+
+  checkpoint(status: string, log: Array<Pick<UiChatLogEntry, "message_type" | "content"> & Partial<UiChatLogEntry>>, extra: Record<string, unknown> = {}): void {
+    this.send({
+      newCheckpoint: {
+        status,
+        goal: "",
+        checkpoint: JSON.stringify({ channel_values: { ui_chat_log: log, ...extra } }),
+      },
+    })
+  }
+
+  /** Send a tool action and wait for the client's matching actionResponse. */
+  async action(action: Omit<WorkflowToolAction, "requestID">, requestID: string = randomUUID()): Promise<ActionResponse> {
+    this.send({ requestID, ...action })
+    const event = await this.nextEvent((e) => "actionResponse" in e && e.actionResponse.requestID === requestID)
+    return (event as { actionResponse: ActionResponse }).actionResponse
+  }
+
+  send(payload: unknown): void {
+    this.#ws.send(JSON.stringify(payload))
+  }
+
+  close(code = 1000): void {
+    this.#ws.close(code)
+  }
+
+  /** Drop the connection without a close handshake, like a network failure. */
+  terminate(): void {
+    this.#ws.terminate()
+  }
+}
+
+export function agent(content: string): Pick<UiChatLogEntry, "message_type" | "content"> {
+  return { message_type: "agent", content }
+}
+
+async function finishImmediately(connection: MockDwsConnection): Promise<void> {
+  await connection.startRequest()
+  connection.checkpoint("INPUT_REQUIRED", [])
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    req.on("data", (chunk: Buffer) => chunks.push(chunk))
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")))
+    req.on("error", reject)
+  })
+}
+
+function sendJson(res: http.ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { "content-type": "application/json", ...headers })
+  res.end(JSON.stringify(payload))
+}